@@ -1,27 +1,52 @@
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import buildExaServer from '../src/index.js';
+import { log } from '../src/utils/logger.js';
+import { isOperatorMode, authenticateAccessToken, resolveAllowedTools } from '../src/utils/accessTokens.js';
 
 // Store transports by session ID
 const transports: Record<string, SSEServerTransport> = {};
 
+/**
+ * Read the client credential: Authorization: Bearer, then x-api-key, then the legacy URL parameter
+ * Headers keep the secret out of proxy logs and browser history
+ */
+function getCredential(req: any): { value: string; source: 'header' | 'query' } | null {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')?.[1];
+  if (bearer) {
+    return { value: bearer, source: 'header' };
+  }
+
+  const headerKey = req.headers['x-api-key'];
+  if (typeof headerKey === 'string' && headerKey) {
+    return { value: headerKey, source: 'header' };
+  }
+
+  const queryKey = req.query.exaApiKey || req.query.apiKey;
+  return typeof queryKey === 'string' && queryKey ? { value: queryKey, source: 'query' } : null;
+}
+
 export default async function handler(req: any, res: any) {
   const startTime = Date.now();
   const requestId = Math.random().toString(36).substring(7);
   
-  console.log(`[${requestId}] ${req.method} /api/mcp`, {
-    query: req.query,
-    headers: {
-      origin: req.headers.origin,
-      'user-agent': req.headers['user-agent']
-    },
-    timestamp: new Date().toISOString()
+  // Logged data is redacted centrally: exaApiKey and auth headers are masked
+  log(`${req.method} /api/mcp`, 'info', {
+    requestId,
+    data: {
+      query: req.query,
+      headers: {
+        origin: req.headers.origin,
+        'user-agent': req.headers['user-agent'],
+        authorization: req.headers.authorization
+      }
+    }
   });
   
   // Handle OPTIONS for CORS preflight
   if (req.method === 'OPTIONS') {
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key');
     res.status(200).end();
     return;
   }
@@ -29,21 +54,57 @@ export default async function handler(req: any, res: any) {
   // Handle SSE connection (GET request)
   if (req.method === 'GET') {
     try {
-      // Extract API key from query parameter
-      const exaApiKey = req.query.exaApiKey || req.query.apiKey;
+      const credential = getCredential(req);
+      const requestedTools = req.query.tools?.split(',').filter(Boolean) || process.env.MCP_TOOLS?.split(',').filter(Boolean);
       
-      if (!exaApiKey) {
-        console.error(`[${requestId}] Missing API key`);
-        res.status(400).send('Missing exaApiKey parameter. Please provide your Exa API key in the URL.');
+      if (!credential) {
+        log('Missing credentials', 'warn', { requestId });
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(401).send(isOperatorMode()
+          ? 'Missing access token. Send it as "Authorization: Bearer <token>".'
+          : 'Missing Exa API key. Send it as "Authorization: Bearer <key>" or "x-api-key: <key>" (the exaApiKey URL parameter is also accepted).');
         return;
       }
       
-      console.log(`[${requestId}] API key provided, establishing SSE connection`);
+      let exaApiKey: string;
+      let enabledTools: string[] | undefined;
+      let tenantId: string | undefined;
+      
+      if (isOperatorMode()) {
+        // Operator mode: the server's own Exa key is used; clients present access tokens
+        const grant = authenticateAccessToken(credential.value);
+        if (!grant) {
+          log('Invalid access token', 'warn', { requestId });
+          res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+          res.status(401).send('Invalid access token');
+          return;
+        }
+        if (!process.env.EXA_API_KEY) {
+          log('Operator mode is enabled but EXA_API_KEY is not set', 'error', { requestId });
+          res.status(500).send('Server is not configured with an Exa API key');
+          return;
+        }
+        
+        enabledTools = resolveAllowedTools(grant, requestedTools);
+        if (enabledTools && enabledTools.length === 0) {
+          log(`Access token "${grant.name}" requested tools outside its allowlist`, 'warn', { requestId });
+          res.status(403).send(`None of the requested tools are allowed for this access token. Allowed: ${grant.tools!.join(', ')}`);
+          return;
+        }
+        
+        exaApiKey = process.env.EXA_API_KEY;
+        tenantId = grant.name;
+        log(`Access token "${grant.name}" accepted (${credential.source}), establishing SSE connection`, 'info', { requestId });
+      } else {
+        exaApiKey = credential.value;
+        enabledTools = requestedTools;
+        log(`API key provided (${credential.source}), establishing SSE connection`, 'info', { requestId });
+      }
       
       // Set CORS headers
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key');
       
       // Set SSE headers to prevent proxy buffering
       res.setHeader('Content-Type', 'text/event-stream');
@@ -54,6 +115,13 @@ export default async function handler(req: any, res: any) {
       // Create a new SSE transport for the client
       const transport = new SSEServerTransport('/api/mcp', res);
       
+      // Flush every outgoing message so progress notifications stream immediately
+      const sendMessage = transport.send.bind(transport);
+      transport.send = async (message) => {
+        await sendMessage(message);
+        res.flush?.();
+      };
+      
       // Store the transport by session ID
       const sessionId = (transport as any)._sessionId;
       transports[sessionId] = transport;
@@ -78,23 +146,22 @@ export default async function handler(req: any, res: any) {
       };
       
       // Connect the transport to the MCP server
-      const enabledTools = req.query.tools?.split(',').filter(Boolean) || process.env.MCP_TOOLS?.split(',').filter(Boolean);
-      console.log(`[${requestId}] Building MCP server with tools:`, enabledTools || 'default');
+      log(`Building MCP server with tools: ${enabledTools?.join(', ') || 'default'}`, 'debug', { requestId });
       
       const mcpServer = buildExaServer({
         config: {
-          exaApiKey: exaApiKey as string,
+          exaApiKey,
           enabledTools,
           debug: req.query.debug === 'true' || process.env.DEBUG === 'true'
-        }
+        },
+        tenantId
       });
       
-      console.log(`[${requestId}] Connecting transport...`);
+      log('Connecting transport...', 'debug', { requestId });
       await mcpServer.connect(transport);
-      console.log(`[${requestId}] SSE connection established successfully`);
+      log('SSE connection established successfully', 'info', { requestId });
     } catch (error) {
-      console.error(`[${requestId}] Error establishing SSE stream:`, error);
-      console.error(`[${requestId}] Stack trace:`, (error as Error).stack);
+      log('Error establishing SSE stream', 'error', { requestId, data: { error, stack: (error as Error).stack } });
       if (!res.headersSent) {
         res.status(500).send('Error establishing SSE stream');
       }
@@ -105,11 +172,15 @@ export default async function handler(req: any, res: any) {
     // Set CORS headers for POST requests too
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key');
     
-    console.log(`[${requestId}] POST request received:`, {
-      sessionId: req.query.sessionId,
-      body: req.body
+    // Bodies carry tool arguments; query text follows the configured query log mode
+    log('POST request received', 'debug', {
+      requestId,
+      data: {
+        sessionId: req.query.sessionId,
+        body: req.body
+      }
     });
     
     // Extract session ID from URL query parameter
@@ -128,21 +199,20 @@ export default async function handler(req: any, res: any) {
     
     try {
       // Handle the POST message with the transport
-      console.log(`[${requestId}] Processing message for session ${sessionId}`);
+      log(`Processing message for session ${sessionId}`, 'debug', { requestId });
       await transport.handlePostMessage(req, res, req.body);
-      console.log(`[${requestId}] Message processed successfully`);
+      log('Message processed successfully', 'debug', { requestId });
     } catch (error) {
-      console.error(`[${requestId}] Error handling request:`, error);
-      console.error(`[${requestId}] Stack trace:`, (error as Error).stack);
+      log('Error handling request', 'error', { requestId, data: { error, stack: (error as Error).stack } });
       if (!res.headersSent) {
         res.status(500).send('Error handling request');
       }
     }
   } else {
-    console.log(`[${requestId}] Method not allowed: ${req.method}`);
+    log(`Method not allowed: ${req.method}`, 'warn', { requestId });
     res.status(405).send('Method not allowed');
   }
   
   const duration = Date.now() - startTime;
-  console.log(`[${requestId}] Request completed in ${duration}ms`);
+  log(`Request completed in ${duration}ms`, 'info', { requestId });
 }
\ No newline at end of file
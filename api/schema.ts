@@ -9,6 +9,8 @@ import { registerCompetitorFinderTool } from '../src/tools/competitorFinder.js';
 import { registerLinkedInSearchTool } from '../src/tools/linkedInSearch.js';
 import { registerWikipediaSearchTool } from '../src/tools/wikipediaSearch.js';
 import { registerGithubSearchTool } from '../src/tools/githubSearch.js';
+import { registerFindSimilarTool } from '../src/tools/findSimilar.js';
+import { registerAnswerTool } from '../src/tools/answer.js';
 
 export default function handler(req: any, res: any) {
   // Create a temporary MCP server just to extract tool schemas
@@ -27,6 +29,8 @@ export default function handler(req: any, res: any) {
   registerLinkedInSearchTool(server, config);
   registerWikipediaSearchTool(server, config);
   registerGithubSearchTool(server, config);
+  registerFindSimilarTool(server, config);
+  registerAnswerTool(server, config);
 
   // Extract tool information from the server
   const registeredTools = (server as any)._registeredTools || {};
@@ -11,14 +11,24 @@ import { registerCompetitorFinderTool } from "./tools/competitorFinder.js";
 import { registerLinkedInSearchTool } from "./tools/linkedInSearch.js";
 import { registerWikipediaSearchTool } from "./tools/wikipediaSearch.js";
 import { registerGithubSearchTool } from "./tools/githubSearch.js";
+import { registerFindSimilarTool } from "./tools/findSimilar.js";
+import { registerAnswerTool } from "./tools/answer.js";
 import { log } from "./utils/logger.js";
 import { registerResourceHandlers } from "./utils/resourceManager.js";
+import { MAX_CACHE_TTL_SECONDS, resolveCacheTtl, formatDuration } from "./utils/cacheTtl.js";
 
 // Configuration schema for the EXA API key and tool selection
 export const configSchema = z.object({
   exaApiKey: z.string().optional().describe("Exa AI API key for search operations"),
   enabledTools: z.array(z.string()).optional().describe("List of tools to enable (if not specified, all tools are enabled)"),
-  debug: z.boolean().default(false).describe("Enable debug logging")
+  debug: z.boolean().default(false).describe("Log this server's startup details (log levels and files are set with EXA_LOG_* on the server)"),
+  retryMaxAttempts: z.number().int().min(1).max(10).optional().describe("Maximum attempts per Exa request, including the first; 429, 502-504 and socket resets are retried with backoff (default: 3)"),
+  rateLimitPerSecond: z.number().positive().optional().describe("Sustained Exa requests per second per API key (default: 5)"),
+  rateLimitBurst: z.number().int().min(1).optional().describe("Requests allowed in a burst above the sustained rate (default: 10)"),
+  maxConcurrentRequests: z.number().int().min(1).optional().describe("Maximum Exa requests in flight per API key; extra calls wait in a queue (default: 8)"),
+  queueTimeoutMs: z.number().int().min(0).optional().describe("How long a queued call may wait before it is rejected, in milliseconds (default: 20000)"),
+  cacheTtlSeconds: z.number().int().min(60).max(MAX_CACHE_TTL_SECONDS).optional().describe("How long search results stay available to retrieve_result, in seconds (default: 300)"),
+  cacheTtlByTool: z.record(z.string(), z.number().int().min(60).max(MAX_CACHE_TTL_SECONDS)).optional().describe("Per-tool result cache TTL in seconds, keyed by tool name (e.g., { \"academic_search\": 3600 }). Overrides cacheTtlSeconds; a call's cache_ttl overrides both")
 });
 
 // Tool registry for managing available tools
@@ -30,7 +40,9 @@ const availableTools = {
   'competitor_search': { name: 'Competitor Search', description: 'Find business competitors', enabled: true },
   'linkedin_search': { name: 'LinkedIn Search', description: 'Search LinkedIn profiles and companies', enabled: true },
   'wikipedia_search': { name: 'Wikipedia Search', description: 'Search Wikipedia articles', enabled: true },
-  'github_search': { name: 'GitHub Search', description: 'Search GitHub repositories and code', enabled: true }
+  'github_search': { name: 'GitHub Search', description: 'Search GitHub repositories and code', enabled: true },
+  'find_similar': { name: 'Find Similar', description: 'Find pages similar to a given URL', enabled: true },
+  'answer': { name: 'Answer', description: 'Direct answers with inline citations', enabled: true }
 };
 
 /**
@@ -48,18 +60,32 @@ const availableTools = {
  * - And more!
  */
 
-export default function ({ config }: { config?: z.infer<typeof configSchema> } = {}) {
+export default function ({ config, tenantId }: {
+  config?: z.infer<typeof configSchema>;
+  tenantId?: string; // Access token name from the hosted endpoint; never taken from client config
+} = {}) {
   try {
     // Default config if not provided
-    const actualConfig = config || {
+    const clientConfig = config || {
       exaApiKey: process.env.EXA_API_KEY,
       enabledTools: undefined, // This will enable all tools
-      debug: false
+      debug: false,
+      retryMaxAttempts: undefined,
+      rateLimitPerSecond: undefined,
+      rateLimitBurst: undefined,
+      maxConcurrentRequests: undefined,
+      queueTimeoutMs: undefined,
+      cacheTtlSeconds: undefined,
+      cacheTtlByTool: undefined
     };
+    // Cached results are owned by the API key plus, for access tokens, the tenant
+    const actualConfig = { ...clientConfig, tenantId };
     
     // Set the API key in environment for tool functions to use
     // process.env.EXA_API_KEY = actualConfig.exaApiKey;
     
+    // Logging is process-wide, so levels, files and redaction come from EXA_LOG_* only;
+    // debug just adds this server's own startup lines
     if (actualConfig.debug) {
       log("Starting Exa MCP Server in debug mode");
     }
@@ -68,7 +94,10 @@ export default function ({ config }: { config?: z.infer<typeof configSchema> } =
     const server = new McpServer({
       name: "exa-search-server",
       version: "2.0.0",
-      description: "Token-aware web search with progressive disclosure. All responses include token estimates and cache IDs. Use content_level parameter to control detail (summary/standard/full). Results cached 5min for follow-up retrieval."
+      description: `Token-aware web search with progressive disclosure. All responses include token estimates and cache IDs. Use content_level parameter to control detail (summary/standard/full). Results cached ${formatDuration(resolveCacheTtl(actualConfig))} by default for follow-up retrieval.`
+    }, {
+      // Lets tools forward their logs as notifications/message (see EXA_CLIENT_LOG_LEVEL)
+      capabilities: { logging: {} }
     });
     
     log("Server initialized with modern MCP SDK and Smithery CLI support");
@@ -124,21 +153,29 @@ export default function ({ config }: { config?: z.infer<typeof configSchema> } =
       registeredTools.push('github_search');
     }
     
+    if (shouldRegisterTool('find_similar')) {
+      registerFindSimilarTool(server, actualConfig);
+      registeredTools.push('find_similar');
+    }
+    
+    if (shouldRegisterTool('answer')) {
+      registerAnswerTool(server, actualConfig);
+      registeredTools.push('answer');
+    }
+    
     if (actualConfig.debug) {
       log(`Registered ${registeredTools.length} tools: ${registeredTools.join(', ')}`);
     }
 
-    // TODO: MCP resource handlers disabled due to API incompatibility
-    // registerResourceHandlers(server);
-    // log("Resource handlers registered for cached search results");
-    // Issue: TypeScript errors - server.resource() API needs 3-4 args, not object
-    // Fix required: Reimplement using correct MCP SDK resource API
+    // Expose cached searches as MCP resources (exa://search/{cacheId}[/{index}])
+    registerResourceHandlers(server, actualConfig);
+    log("Resource handlers registered for cached search results", 'debug');
 
     // Return the server object (Smithery CLI handles transport)
     return server.server;
     
   } catch (error) {
-    log(`Server initialization error: ${error instanceof Error ? error.message : String(error)}`);
+    log(`Server initialization error: ${error instanceof Error ? error.message : String(error)}`, 'error');
     throw error;
   }
 }
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { z } from "zod";
+import { AxiosInstance } from "axios";
+import { Readable } from "stream";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { API_CONFIG } from "./config.js";
+import { AnswerRequest, AnswerResponse } from "../types.js";
+import { createRequestLogger } from "../utils/logger.js";
+import { getExaClient, getQueueDelay, ExaClientConfig } from "../utils/axiosClient.js";
+import { getCacheOwner } from "../utils/resultCache.js";
+import { createProgressReporter, withProgress, ProgressReporter } from "../utils/progress.js";
+import { dateRangeParams, resolveDateRange } from "../utils/dateRange.js";
+import { resolveDomainFilters } from "../utils/domainFilters.js";
+import { cacheTtlParams, resolveCacheTtl, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { formatAnswerResponse, formatAnswerResponseJSON, formatErrorResponse, OutputFormat } from "../utils/responseFormatter.js";
+
+/**
+ * Stream an answer from Exa, forwarding partial text as progress notifications
+ * Exa streams server-sent events with OpenAI-style deltas and a final citations chunk
+ * Also returns how long the client-side rate limiter held the request back
+ */
+async function streamAnswer(
+  axiosInstance: AxiosInstance,
+  answerRequest: AnswerRequest,
+  progress: ProgressReporter
+): Promise<{ data: AnswerResponse; queuedMs: number }> {
+  progress.report("Generating answer");
+
+  const response = await axiosInstance.post<Readable>(
+    API_CONFIG.ENDPOINTS.ANSWER,
+    { ...answerRequest, stream: true },
+    { responseType: 'stream' }
+  );
+
+  const result: AnswerResponse = {
+    requestId: String(response.headers['x-request-id'] || ''),
+    answer: '',
+    citations: []
+  };
+  let buffer = '';
+
+  for await (const chunk of response.data) {
+    buffer += chunk.toString();
+
+    // Only complete lines are parsed; the remainder waits for the next chunk
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    let partial = '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) {
+        continue;
+      }
+
+      const payload = trimmed.slice(5).trim();
+      if (!payload || payload === '[DONE]') {
+        continue;
+      }
+
+      try {
+        const event = JSON.parse(payload);
+        const delta = event.choices?.[0]?.delta?.content ?? event.answer;
+        if (typeof delta === 'string') {
+          partial += delta;
+        }
+        if (Array.isArray(event.citations)) {
+          result.citations!.push(...event.citations);
+        }
+        if (event.requestId) {
+          result.requestId = event.requestId;
+        }
+      } catch {
+        // Ignore keep-alive or malformed events
+      }
+    }
+
+    if (partial) {
+      result.answer += partial;
+      progress.report(partial);
+    }
+  }
+
+  return { data: result, queuedMs: getQueueDelay(response) };
+}
+
+export function registerAnswerTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
+  server.tool(
+    "answer",
+    "Answers a question directly with inline numbered citations. Returns: answer text, cited sources with cache ID. Use when: need a sourced answer rather than a list of pages.",
+    {
+      query: z.string().describe(
+        "Question to answer (e.g., 'What is the latest valuation of SpaceX?')"
+      ),
+      output_format: z.enum(['markdown', 'json']).optional().describe(
+        "Response format: markdown (human-readable, default) or json (code-friendly for filtering/transformation)"
+      ),
+      include_domains: z.array(z.string()).optional().describe(
+        "Only cite sources from these domains (e.g., ['reuters.com'])"
+      ),
+      exclude_domains: z.array(z.string()).optional().describe(
+        "Never cite sources from these domains"
+      ),
+      ...dateRangeParams,
+      ...cacheTtlParams
+    },
+    async ({ query, output_format, include_domains, exclude_domains, cache_ttl, ...dateArgs }, extra) => {
+      const requestId = `answer-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      const logger = createRequestLogger(requestId, 'answer', extra, server);
+
+      logger.start(query);
+      const progress = createProgressReporter(extra);
+
+      try {
+        // Use shared axios client with keep-alive
+        const axiosInstance = getExaClient(config);
+
+        const sourceFilters: AnswerRequest['sourceFilters'] = {
+          ...resolveDateRange(dateArgs),
+          ...resolveDomainFilters([], { include_domains, exclude_domains })
+        };
+
+        const answerRequest: AnswerRequest = {
+          query,
+          extras: {
+            citations: true
+          }
+        };
+
+        if (Object.keys(sourceFilters).length > 0) {
+          answerRequest.sourceFilters = sourceFilters;
+        }
+
+        logger.log("Sending answer request to Exa API");
+
+        // Stream partial answer text when the client is listening for progress
+        const { data: answerData, queuedMs } = progress.enabled
+          ? await streamAnswer(axiosInstance, answerRequest, progress)
+          : await withProgress(
+            progress,
+            axiosInstance.post<AnswerResponse>(API_CONFIG.ENDPOINTS.ANSWER, answerRequest),
+            "Generating answer"
+          ).then(response => ({ data: response.data, queuedMs: getQueueDelay(response) }));
+
+        logger.log("Received response from Exa API");
+
+        if (!answerData || !answerData.answer) {
+          logger.log("Warning: Empty or invalid response from Exa API");
+          return {
+            content: [{
+              type: "text" as const,
+              text: "No answer found. Please try rephrasing the question."
+            }]
+          };
+        }
+
+        logger.log(`Answer received with ${answerData.citations?.length || 0} citations`);
+
+        const actualOutputFormat: OutputFormat = output_format || 'markdown';
+
+        if (actualOutputFormat === 'json') {
+          const jsonResponse = formatAnswerResponseJSON(answerData, query, getCacheOwner(config), resolveCacheTtl(config, 'answer', cache_ttl), queuedMs);
+
+          logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
+
+          const result = {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify(jsonResponse, null, 2)
+            }]
+          };
+
+          logger.complete();
+          return result;
+        } else {
+          const formatted = formatAnswerResponse(answerData, query, getCacheOwner(config), resolveCacheTtl(config, 'answer', cache_ttl), queuedMs);
+
+          logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
+
+          const result = {
+            content: [{
+              type: "text" as const,
+              text: formatted.text
+            }]
+          };
+
+          logger.complete();
+          return result;
+        }
+      } catch (error) {
+        logger.error(error);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatErrorResponse(error, query, output_format)
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
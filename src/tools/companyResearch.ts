@@ -1,13 +1,19 @@
 import { z } from "zod";
-import axios from "axios";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { API_CONFIG } from "./config.js";
 import { ExaSearchRequest, ExaSearchResponse } from "../types.js";
 import { createRequestLogger } from "../utils/logger.js";
-import { getExaClient } from "../utils/axiosClient.js";
-import { formatSearchResponse, formatSearchResponseJSON, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
+import { getExaClient, ExaClientConfig } from "../utils/axiosClient.js";
+import { cachedPost } from "../utils/responseCache.js";
+import { getCacheOwner } from "../utils/resultCache.js";
+import { createProgressReporter, withProgress } from "../utils/progress.js";
+import { dateRangeParams, resolveDateRange } from "../utils/dateRange.js";
+import { cacheTtlParams, resolveCacheTtl, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { domainFilterParams, resolveDomainFilters } from "../utils/domainFilters.js";
+import { contentModeParams, buildContentModeContents } from "../utils/contentMode.js";
+import { formatSearchResponse, formatSearchResponseJSON, formatDegradedResponse, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
 
-export function registerCompanyResearchTool(server: McpServer, config?: { exaApiKey?: string }): void {
+export function registerCompanyResearchTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
   server.tool(
     "company_search",
     "Searches company information and news. Returns: business data, financials, recent news. Use when: researching businesses or organizations.",
@@ -19,18 +25,25 @@ export function registerCompanyResearchTool(server: McpServer, config?: { exaApi
       ),
       output_format: z.enum(['markdown', 'json']).optional().describe(
         "Response format: markdown (human-readable, default) or json (code-friendly for filtering/transformation)"
-      )
+      ),
+      ...contentModeParams,
+      ...dateRangeParams,
+      ...domainFilterParams,
+      ...cacheTtlParams
     },
-    async ({ companyName, numResults, content_level, output_format }) => {
+    async ({ companyName, numResults, content_level, output_format, content_mode, cache_ttl, ...filterArgs }, extra) => {
       const requestId = `company_search-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-      const logger = createRequestLogger(requestId, 'company_search');
+      const logger = createRequestLogger(requestId, 'company_search', extra, server);
       
       logger.start(companyName);
+      const progress = createProgressReporter(extra);
       
       try {
         // Use shared axios client with keep-alive
         const axiosInstance = getExaClient(config);
 
+        const dateRange = resolveDateRange(filterArgs);
+
         const searchRequest: ExaSearchRequest = {
           query: `${companyName} company business corporation information news financial`,
           type: "neural",
@@ -39,16 +52,19 @@ export function registerCompanyResearchTool(server: McpServer, config?: { exaApi
             text: {
               maxCharacters: API_CONFIG.DEFAULT_MAX_CHARACTERS
             },
-            livecrawl: 'fallback'
+            livecrawl: 'fallback',
+            ...buildContentModeContents(content_mode, companyName)
           },
-          includeDomains: ["bloomberg.com", "reuters.com", "crunchbase.com", "sec.gov", "linkedin.com", "forbes.com", "businesswire.com", "prnewswire.com"]
+          ...resolveDomainFilters(["bloomberg.com", "reuters.com", "crunchbase.com", "sec.gov", "linkedin.com", "forbes.com", "businesswire.com", "prnewswire.com"], filterArgs),
+          ...dateRange
         };
         
         logger.log("Sending request to Exa API for company research");
         
-        const response = await axiosInstance.post<ExaSearchResponse>(
-          API_CONFIG.ENDPOINTS.SEARCH,
-          searchRequest
+        const response = await withProgress(
+          progress,
+          cachedPost<ExaSearchResponse>(axiosInstance, API_CONFIG.ENDPOINTS.SEARCH, searchRequest, getCacheOwner(config)),
+          "Researching company"
         );
         
         logger.log("Received response from Exa API");
@@ -74,7 +90,8 @@ export function registerCompanyResearchTool(server: McpServer, config?: { exaApi
           const jsonResponse = formatSearchResponseJSON(
             response.data,
             companyName,
-            actualContentLevel
+            actualContentLevel,
+            { tool: 'company_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'company_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
@@ -94,7 +111,8 @@ export function registerCompanyResearchTool(server: McpServer, config?: { exaApi
             response.data,
             companyName,
             actualContentLevel,
-            25000 // Safe limit to prevent 32K overflow
+            25000, // Safe limit to prevent 32K overflow
+            { tool: 'company_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'company_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
@@ -111,27 +129,23 @@ export function registerCompanyResearchTool(server: McpServer, config?: { exaApi
         }
       } catch (error) {
         logger.error(error);
-        
-        if (axios.isAxiosError(error)) {
-          // Handle Axios errors specifically
-          const statusCode = error.response?.status || 'unknown';
-          const errorMessage = error.response?.data?.message || error.message;
-          
-          logger.log(`Axios error (${statusCode}): ${errorMessage}`);
+
+        // Exa is down: fall back to recent cached results for the same query
+        const degraded = formatDegradedResponse(error, getCacheOwner(config), 'company_search', companyName, output_format);
+        if (degraded) {
+          logger.log("Circuit open, serving stale cached results");
           return {
             content: [{
               type: "text" as const,
-              text: `Company research error (${statusCode}): ${errorMessage}`
-            }],
-            isError: true,
+              text: degraded
+            }]
           };
         }
         
-        // Handle generic errors
         return {
           content: [{
             type: "text" as const,
-            text: `Company research error: ${error instanceof Error ? error.message : String(error)}`
+            text: formatErrorResponse(error, companyName, output_format)
           }],
           isError: true,
         };
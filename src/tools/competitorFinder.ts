@@ -1,13 +1,19 @@
 import { z } from "zod";
-import axios from "axios";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { API_CONFIG } from "./config.js";
 import { ExaSearchRequest, ExaSearchResponse } from "../types.js";
 import { createRequestLogger } from "../utils/logger.js";
-import { getExaClient } from "../utils/axiosClient.js";
-import { formatSearchResponse, formatSearchResponseJSON, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
+import { getExaClient, ExaClientConfig } from "../utils/axiosClient.js";
+import { cachedPost } from "../utils/responseCache.js";
+import { getCacheOwner } from "../utils/resultCache.js";
+import { createProgressReporter, withProgress } from "../utils/progress.js";
+import { dateRangeParams, resolveDateRange } from "../utils/dateRange.js";
+import { cacheTtlParams, resolveCacheTtl, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { domainFilterParams, resolveDomainFilters } from "../utils/domainFilters.js";
+import { contentModeParams, buildContentModeContents } from "../utils/contentMode.js";
+import { formatSearchResponse, formatSearchResponseJSON, formatDegradedResponse, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
 
-export function registerCompetitorFinderTool(server: McpServer, config?: { exaApiKey?: string }): void {
+export function registerCompetitorFinderTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
   server.tool(
     "competitor_search",
     "Finds business competitors. Returns: similar companies, market analysis. Use when: asked 'who competes with X' or competitive analysis.",
@@ -20,13 +26,18 @@ export function registerCompetitorFinderTool(server: McpServer, config?: { exaAp
       ),
       output_format: z.enum(['markdown', 'json']).optional().describe(
         "Response format: markdown (human-readable, default) or json (code-friendly for filtering/transformation)"
-      )
+      ),
+      ...contentModeParams,
+      ...dateRangeParams,
+      ...domainFilterParams,
+      ...cacheTtlParams
     },
-    async ({ companyName, industry, numResults, content_level, output_format }) => {
+    async ({ companyName, industry, numResults, content_level, output_format, content_mode, cache_ttl, ...filterArgs }, extra) => {
       const requestId = `competitor_search-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-      const logger = createRequestLogger(requestId, 'competitor_search');
+      const logger = createRequestLogger(requestId, 'competitor_search', extra, server);
       
       logger.start(`${companyName} ${industry ? `in ${industry}` : ''}`);
+      const progress = createProgressReporter(extra);
       
       try {
         // Use shared axios client with keep-alive
@@ -36,6 +47,8 @@ export function registerCompetitorFinderTool(server: McpServer, config?: { exaAp
           ? `${companyName} competitors similar companies ${industry} industry competitive landscape`
           : `${companyName} competitors similar companies competitive landscape market`;
 
+        const dateRange = resolveDateRange(filterArgs);
+
         const searchRequest: ExaSearchRequest = {
           query: searchQuery,
           type: "neural",
@@ -44,16 +57,19 @@ export function registerCompetitorFinderTool(server: McpServer, config?: { exaAp
             text: {
               maxCharacters: API_CONFIG.DEFAULT_MAX_CHARACTERS
             },
-            livecrawl: 'fallback'
+            livecrawl: 'fallback',
+            ...buildContentModeContents(content_mode, companyName)
           },
-          includeDomains: ["crunchbase.com", "bloomberg.com", "techcrunch.com", "forbes.com", "businessinsider.com", "reuters.com", "linkedin.com"]
+          ...resolveDomainFilters(["crunchbase.com", "bloomberg.com", "techcrunch.com", "forbes.com", "businessinsider.com", "reuters.com", "linkedin.com"], filterArgs),
+          ...dateRange
         };
         
         logger.log("Sending request to Exa API for competitor analysis");
         
-        const response = await axiosInstance.post<ExaSearchResponse>(
-          API_CONFIG.ENDPOINTS.SEARCH,
-          searchRequest
+        const response = await withProgress(
+          progress,
+          cachedPost<ExaSearchResponse>(axiosInstance, API_CONFIG.ENDPOINTS.SEARCH, searchRequest, getCacheOwner(config)),
+          "Finding competitors"
         );
         
         logger.log("Received response from Exa API");
@@ -78,7 +94,8 @@ export function registerCompetitorFinderTool(server: McpServer, config?: { exaAp
           const jsonResponse = formatSearchResponseJSON(
             response.data,
             companyName,
-            actualContentLevel
+            actualContentLevel,
+            { tool: 'competitor_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'competitor_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
@@ -97,7 +114,8 @@ export function registerCompetitorFinderTool(server: McpServer, config?: { exaAp
             response.data,
             companyName,
             actualContentLevel,
-            25000
+            25000,
+            { tool: 'competitor_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'competitor_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
@@ -114,27 +132,23 @@ export function registerCompetitorFinderTool(server: McpServer, config?: { exaAp
         }
       } catch (error) {
         logger.error(error);
-        
-        if (axios.isAxiosError(error)) {
-          // Handle Axios errors specifically
-          const statusCode = error.response?.status || 'unknown';
-          const errorMessage = error.response?.data?.message || error.message;
-          
-          logger.log(`Axios error (${statusCode}): ${errorMessage}`);
+
+        // Exa is down: fall back to recent cached results for the same query
+        const degraded = formatDegradedResponse(error, getCacheOwner(config), 'competitor_search', companyName, output_format);
+        if (degraded) {
+          logger.log("Circuit open, serving stale cached results");
           return {
             content: [{
               type: "text" as const,
-              text: `Competitor finder error (${statusCode}): ${errorMessage}`
-            }],
-            isError: true,
+              text: degraded
+            }]
           };
         }
         
-        // Handle generic errors
         return {
           content: [{
             type: "text" as const,
-            text: `Competitor finder error: ${error instanceof Error ? error.message : String(error)}`
+            text: formatErrorResponse(error, companyName, output_format)
           }],
           isError: true,
         };
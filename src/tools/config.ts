@@ -18,5 +18,19 @@ export const API_CONFIG = {
 
   // Safety limits
   MAX_SAFE_TOTAL_TOKENS: 25000, // Leave 7K buffer before 32K limit
+  RETRIEVE_CHUNK_TOKENS: 20000, // Default retrieve_result chunk, leaves room for headers
   CACHE_TTL_MS: 5 * 60 * 1000,  // 5 minutes
+  // Retry policy for transient Exa failures (429, 502-504, socket resets)
+  RETRY_MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 8000, // Longer Retry-After values fail instead of waiting
+  // Client-side rate limiting per API key
+  RATE_LIMIT_PER_SECOND: 5,
+  RATE_LIMIT_BURST: 10,
+  MAX_CONCURRENT_REQUESTS: 8,
+  QUEUE_TIMEOUT_MS: 20000, // Reject queued requests well before MCP client timeouts
+  // Circuit breaker: fail fast after consecutive upstream failures
+  CIRCUIT_FAILURE_THRESHOLD: 5,
+  CIRCUIT_RESET_MS: 30000,
+  RESPONSE_CACHE_TTL_MS: 10 * 60 * 1000, // Identical upstream requests reuse the response for 10 minutes
 } as const; 
\ No newline at end of file
@@ -1,91 +1,253 @@
 import { z } from "zod";
-import axios from "axios";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { API_CONFIG } from "./config.js";
 import { createRequestLogger } from "../utils/logger.js";
-import { getExaClient } from "../utils/axiosClient.js";
-import { ExaCrawlRequest } from "../types.js";
+import { getExaClient, ExaClientConfig } from "../utils/axiosClient.js";
+import { cachedPost } from "../utils/responseCache.js";
+import { getCacheOwner } from "../utils/resultCache.js";
+import { createProgressReporter, withProgress } from "../utils/progress.js";
+import { cacheTtlParams, resolveCacheTtl, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { calculateMaxCharacters, tokensToCharacters } from "../utils/tokenEstimator.js";
+import { formatSearchResponse, formatSearchResponseJSON, formatDegradedResponse, formatErrorResponse, formatUrlStatuses, ContentLevel, OutputFormat, UrlStatus } from "../utils/responseFormatter.js";
+import { ExaCrawlRequest, ExaContentsResponse, ExaSearchResponse, ExaSearchResult } from "../types.js";
 
-export function registerCrawlingTool(server: McpServer, config?: { exaApiKey?: string }): void {
+const MAX_BATCH_URLS = 30;
+
+/**
+ * Flatten crawled pages and their subpages into one indexed result list
+ * parentIndexes[i] is the flattened index of results[i]
+ */
+function flattenSubpages(results: ExaSearchResult[]): { pages: ExaSearchResult[]; parentIndexes: number[] } {
+  const pages: ExaSearchResult[] = [];
+  const parentIndexes: number[] = [];
+
+  for (const { subpages, ...page } of results) {
+    parentIndexes.push(pages.length);
+    pages.push(page);
+    if (subpages) {
+      pages.push(...subpages);
+    }
+  }
+
+  return { pages, parentIndexes };
+}
+
+/**
+ * Check a URL is absolute http(s) before sending it to Exa
+ */
+function isValidUrl(value: string): boolean {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function registerCrawlingTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
   server.tool(
     "url_content",
-    "Extracts full content from specific URLs. Returns: complete page text, metadata. Use when: have exact URL to analyze.",
+    "Extracts full content from specific URLs. Returns: complete page text, metadata, per-URL status. Use when: have exact URLs to analyze (up to 30 per call).",
     {
-      url: z.string().describe("URL to extract content from (e.g., 'https://example.com/article')"),
-      maxCharacters: z.number().optional().describe("Maximum characters to extract (1000-10000, default: 3000)"),
-      liveCrawl: z.enum(['always', 'auto', 'fallback', 'never']).optional().describe("Content fetching: 'always' = fresh content, 'auto' = balance speed/freshness, 'fallback' = cache first, 'never' = cache only (default: auto)")
+      url: z.string().optional().describe("URL to extract content from (e.g., 'https://example.com/article')"),
+      urls: z.array(z.string()).max(MAX_BATCH_URLS).optional().describe("Batch of URLs to extract in one call (up to 30); combined with url if both are given"),
+      maxCharacters: z.number().int().min(1000).max(10000).optional().describe("Maximum characters per document (1000-10000, default: token budget split across documents; never above that split when fetching several)"),
+      liveCrawl: z.enum(['always', 'auto', 'fallback', 'never']).optional().describe("Content fetching: 'always' = fresh content, 'auto' = balance speed/freshness, 'fallback' = cache first, 'never' = cache only (default: auto)"),
+      subpages: z.number().int().min(0).max(20).optional().describe("Also crawl up to N linked subpages of each URL (0-20, default: 0)"),
+      subpageTarget: z.array(z.string()).optional().describe("Keywords to prioritize subpages (e.g., ['pricing', 'docs'])"),
+      content_level: z.enum(['summary', 'standard', 'full']).optional().describe(
+        "Detail level: summary (~150 tok/result), standard (~500 tok/result), full (entire extracted text). Default: full, or standard when the batch would exceed the token budget"
+      ),
+      output_format: z.enum(['markdown', 'json']).optional().describe(
+        "Response format: markdown (human-readable, default) or json (code-friendly for filtering/transformation)"
+      ),
+      ...cacheTtlParams
     },
-    async ({ url, maxCharacters, liveCrawl }) => {
+    async ({ url, urls, maxCharacters, liveCrawl, subpages, subpageTarget, content_level, output_format, cache_ttl }, extra) => {
       const requestId = `url_content-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-      const logger = createRequestLogger(requestId, 'url_content');
+      const logger = createRequestLogger(requestId, 'url_content', extra, server);
       
-      logger.start(url);
+      const requestedUrls = Array.from(new Set([...(url ? [url] : []), ...(urls || [])].map(u => u.trim()).filter(Boolean)));
+
+      logger.start(requestedUrls.join(', '));
+      const progress = createProgressReporter(extra);
       
       try {
+        if (requestedUrls.length === 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: "No URL provided. Pass url or urls."
+            }],
+            isError: true,
+          };
+        }
+
+        if (requestedUrls.length > MAX_BATCH_URLS) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Too many URLs: ${requestedUrls.length}. Maximum is ${MAX_BATCH_URLS} per call.`
+            }],
+            isError: true,
+          };
+        }
+
+        // Reject malformed URLs up front so they cannot fail the whole batch
+        const invalidStatus = (u: string): UrlStatus => ({ url: u, status: 'error', error: 'Invalid URL' });
+        const validUrls = requestedUrls.filter(isValidUrl);
+
+        if (validUrls.length === 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: formatUrlStatuses(requestedUrls.map(invalidStatus))
+            }],
+            isError: true,
+          };
+        }
+
+        // Split the token budget across every document, including subpages
+        const documentCount = validUrls.length * (1 + (subpages || 0));
+        const budgetChars = calculateMaxCharacters(documentCount, 20000);
+        const maxChars = maxCharacters && documentCount > 1 ? Math.min(maxCharacters, budgetChars) : maxCharacters || budgetChars;
+        // The per-document floor can still push a large batch past the response budget
+        const overBudget = documentCount * maxChars > tokensToCharacters(API_CONFIG.MAX_SAFE_TOTAL_TOKENS);
+
+        logger.log(`URLs: ${validUrls.length}, Documents: ${documentCount}, MaxChars: ${maxChars}`);
+
         // Use shared axios client with keep-alive
         const axiosInstance = getExaClient(config);
 
         const crawlRequest: ExaCrawlRequest = {
-          urls: [url],
+          urls: validUrls,
           text: {
-            maxCharacters: maxCharacters || API_CONFIG.DEFAULT_MAX_CHARACTERS
+            maxCharacters: maxChars
           },
           livecrawl: liveCrawl || 'auto'
         };
+
+        if (subpages && subpages > 0) {
+          crawlRequest.subpages = subpages;
+          if (subpageTarget && subpageTarget.length > 0) {
+            crawlRequest.subpageTarget = subpageTarget;
+          }
+        }
         
         logger.log("Sending crawl request to Exa API");
         
-        const response = await axiosInstance.post(
-          API_CONFIG.ENDPOINTS.CONTENTS,
-          crawlRequest
+        const response = await withProgress(
+          progress,
+          cachedPost<ExaContentsResponse>(axiosInstance, API_CONFIG.ENDPOINTS.CONTENTS, crawlRequest, getCacheOwner(config)),
+          "Fetching URL content"
         );
         
         logger.log("Received response from Exa API");
 
-        if (!response.data || !response.data.contents) {
+        const results = response.data?.results || [];
+        const { pages, parentIndexes } = flattenSubpages(results);
+
+        // Report each requested URL in the order given, even when Exa omitted it from results
+        const statuses = requestedUrls.map((requested): UrlStatus => {
+          if (!isValidUrl(requested)) {
+            return invalidStatus(requested);
+          }
+
+          const resultPosition = results.findIndex(r => r.id === requested || r.url === requested);
+          const upstreamStatus = response.data?.statuses?.find(st => st.id === requested);
+
+          if (resultPosition >= 0 && upstreamStatus?.status !== 'error') {
+            return { url: requested, status: 'success', resultIndex: parentIndexes[resultPosition] };
+          }
+          const reason = upstreamStatus?.error
+            ? [upstreamStatus.error.tag, upstreamStatus.error.httpStatusCode].filter(Boolean).join(' ')
+            : 'No content returned';
+          return { url: requested, status: 'error', error: reason };
+        });
+
+        const failedCount = statuses.filter(st => st.status === 'error').length;
+        logger.log(`Crawled ${pages.length} pages (${pages.length - results.length} subpages), ${failedCount} URLs failed`);
+
+        if (pages.length === 0) {
           logger.log("Warning: Empty or invalid response from Exa API");
           return {
             content: [{
               type: "text" as const,
-              text: "No content found for the provided URL."
+              text: `No content found for the provided URLs.\n\n${formatUrlStatuses(statuses)}`
             }]
           };
         }
 
-        logger.log(`Successfully crawled content from URL`);
-        
+        // Normalize /contents into the search response shape used by the formatter
+        const normalized: ExaSearchResponse = {
+          requestId: response.data.requestId,
+          results: pages
+        };
+        const cacheLabel = requestedUrls.join(', ');
+
+        // Full text is the default only while the whole batch fits the budget; standard truncates to fit
+        const actualContentLevel: ContentLevel = content_level || (overBudget ? 'standard' : 'full');
+        const actualOutputFormat: OutputFormat = output_format || 'markdown';
+
+        if (actualOutputFormat === 'json') {
+          const jsonResponse = formatSearchResponseJSON(
+            normalized,
+            cacheLabel,
+            actualContentLevel,
+            { tool: 'url_content', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'url_content', cache_ttl), urlStatuses: statuses, upstream: response.upstream }
+          );
+
+          logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
+
+          const result = {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify(jsonResponse, null, 2)
+            }]
+          };
+
+          logger.complete();
+          return result;
+        }
+
+        const formatted = formatSearchResponse(
+          normalized,
+          cacheLabel,
+          actualContentLevel,
+          25000,
+          { tool: 'url_content', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'url_content', cache_ttl), urlStatuses: statuses, upstream: response.upstream }
+        );
+
+        logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
+
         const result = {
           content: [{
             type: "text" as const,
-            text: JSON.stringify(response.data, null, 2)
+            text: formatted.text
           }]
         };
-        
+
         logger.complete();
         return result;
       } catch (error) {
         logger.error(error);
-        
-        if (axios.isAxiosError(error)) {
-          // Handle Axios errors specifically
-          const statusCode = error.response?.status || 'unknown';
-          const errorMessage = error.response?.data?.message || error.message;
-          
-          logger.log(`Axios error (${statusCode}): ${errorMessage}`);
+
+        // Exa is down: fall back to recent cached results for the same query
+        const degraded = formatDegradedResponse(error, getCacheOwner(config), 'url_content', requestedUrls.join(', '), output_format);
+        if (degraded) {
+          logger.log("Circuit open, serving stale cached results");
           return {
             content: [{
               type: "text" as const,
-              text: `Crawling error (${statusCode}): ${errorMessage}`
-            }],
-            isError: true,
+              text: degraded
+            }]
           };
         }
         
-        // Handle generic errors
         return {
           content: [{
             type: "text" as const,
-            text: `Crawling error: ${error instanceof Error ? error.message : String(error)}`
+            text: formatErrorResponse(error, requestedUrls.join(', '), output_format)
           }],
           isError: true,
         };
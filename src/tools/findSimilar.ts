@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { API_CONFIG } from "./config.js";
+import { FindSimilarRequest, FindSimilarResponse } from "../types.js";
+import { createRequestLogger } from "../utils/logger.js";
+import { getExaClient, ExaClientConfig } from "../utils/axiosClient.js";
+import { cachedPost } from "../utils/responseCache.js";
+import { getCacheOwner } from "../utils/resultCache.js";
+import { createProgressReporter, withProgress } from "../utils/progress.js";
+import { dateRangeParams, resolveDateRange } from "../utils/dateRange.js";
+import { cacheTtlParams, resolveCacheTtl, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { contentModeParams, buildContentModeContents } from "../utils/contentMode.js";
+import { resolveDomainFilters } from "../utils/domainFilters.js";
+import { formatSearchResponse, formatSearchResponseJSON, formatDegradedResponse, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
+import { calculateMaxCharacters } from "../utils/tokenEstimator.js";
+
+export function registerFindSimilarTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
+  server.tool(
+    "find_similar",
+    "Finds pages similar to a given URL. Returns: related articles, sites, companies with cache ID. Use when: have a known good page and want more like it.",
+    {
+      url: z.string().url().describe(
+        "Reference URL to find similar pages for (e.g., 'https://example.com/article')"
+      ),
+      num_results: z.number().min(1).max(20).optional().describe(
+        "Number of results to return (default: 3 for standard/full, 5 for summary)"
+      ),
+      content_level: z.enum(['summary', 'standard', 'full']).optional().describe(
+        "Detail level: summary (~150 tok/result), standard (~500 tok/result), full (~1500 tok/result). Default: summary"
+      ),
+      output_format: z.enum(['markdown', 'json']).optional().describe(
+        "Response format: markdown (human-readable, default) or json (code-friendly for filtering/transformation)"
+      ),
+      include_domains: z.array(z.string()).optional().describe(
+        "Only return results from these domains (e.g., ['techcrunch.com'])"
+      ),
+      exclude_domains: z.array(z.string()).optional().describe(
+        "Never return results from these domains"
+      ),
+      exclude_source_domain: z.boolean().optional().describe(
+        "Exclude results from the reference URL's own domain (default: true)"
+      ),
+      live_crawl: z.enum(['always', 'auto', 'fallback', 'never']).optional().describe(
+        "Content freshness: always=live, auto=balanced, fallback=cached, never=cache-only. Default: fallback"
+      ),
+      ...contentModeParams,
+      ...dateRangeParams,
+      ...cacheTtlParams
+    },
+    async ({ url, num_results, content_level, output_format, include_domains, exclude_domains, exclude_source_domain, live_crawl, content_mode, cache_ttl, ...dateArgs }, extra) => {
+      const requestId = `find_similar-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+      const logger = createRequestLogger(requestId, 'find_similar', extra, server);
+
+      logger.start(url);
+      const progress = createProgressReporter(extra);
+
+      try {
+        const actualContentLevel: ContentLevel = content_level || 'summary';
+        const defaultNumResults = actualContentLevel === 'summary' ? 5 : 3;
+        const numResults = num_results || defaultNumResults;
+        const maxChars = calculateMaxCharacters(numResults, 20000);
+
+        // Use shared axios client with keep-alive
+        const axiosInstance = getExaClient(config);
+
+        const dateRange = resolveDateRange(dateArgs);
+
+        const similarRequest: FindSimilarRequest = {
+          url,
+          numResults,
+          excludeSourceDomain: exclude_source_domain ?? true,
+          contents: {
+            text: {
+              maxCharacters: maxChars
+            },
+            livecrawl: live_crawl || 'fallback',
+            ...buildContentModeContents(content_mode)
+          },
+          ...dateRange,
+          ...resolveDomainFilters([], { include_domains, exclude_domains })
+        };
+
+        logger.log("Sending findSimilar request to Exa API");
+
+        const response = await withProgress(
+          progress,
+          cachedPost<FindSimilarResponse>(axiosInstance, API_CONFIG.ENDPOINTS.FIND_SIMILAR, similarRequest, getCacheOwner(config)),
+          "Finding similar pages"
+        );
+
+        logger.log("Received response from Exa API");
+
+        if (!response.data || !response.data.results) {
+          logger.log("Warning: Empty or invalid response from Exa API");
+          return {
+            content: [{
+              type: "text" as const,
+              text: "No similar pages found. Please try a different URL."
+            }]
+          };
+        }
+
+        logger.log(`Found ${response.data.results.length} similar results`);
+
+        const actualOutputFormat: OutputFormat = output_format || 'markdown';
+
+        if (actualOutputFormat === 'json') {
+          const jsonResponse = formatSearchResponseJSON(
+            response.data,
+            url,
+            actualContentLevel,
+            { tool: 'find_similar', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'find_similar', cache_ttl), dateRange, upstream: response.upstream }
+          );
+
+          logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
+
+          const result = {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify(jsonResponse, null, 2)
+            }]
+          };
+
+          logger.complete();
+          return result;
+        } else {
+          const formatted = formatSearchResponse(
+            response.data,
+            url,
+            actualContentLevel,
+            25000,
+            { tool: 'find_similar', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'find_similar', cache_ttl), dateRange, upstream: response.upstream }
+          );
+
+          logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
+
+          const result = {
+            content: [{
+              type: "text" as const,
+              text: formatted.text
+            }]
+          };
+
+          logger.complete();
+          return result;
+        }
+      } catch (error) {
+        logger.error(error);
+
+        // Exa is down: fall back to recent cached results for the same query
+        const degraded = formatDegradedResponse(error, getCacheOwner(config), 'find_similar', url, output_format);
+        if (degraded) {
+          logger.log("Circuit open, serving stale cached results");
+          return {
+            content: [{
+              type: "text" as const,
+              text: degraded
+            }]
+          };
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatErrorResponse(error, url, output_format)
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
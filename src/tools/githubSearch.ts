@@ -1,13 +1,19 @@
 import { z } from "zod";
-import axios from "axios";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { API_CONFIG } from "./config.js";
 import { ExaSearchRequest, ExaSearchResponse } from "../types.js";
 import { createRequestLogger } from "../utils/logger.js";
-import { getExaClient } from "../utils/axiosClient.js";
-import { formatSearchResponse, formatSearchResponseJSON, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
+import { getExaClient, ExaClientConfig } from "../utils/axiosClient.js";
+import { cachedPost } from "../utils/responseCache.js";
+import { getCacheOwner } from "../utils/resultCache.js";
+import { createProgressReporter, withProgress } from "../utils/progress.js";
+import { dateRangeParams, resolveDateRange } from "../utils/dateRange.js";
+import { cacheTtlParams, resolveCacheTtl, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { domainFilterParams, resolveDomainFilters } from "../utils/domainFilters.js";
+import { contentModeParams, buildContentModeContents } from "../utils/contentMode.js";
+import { formatSearchResponse, formatSearchResponseJSON, formatDegradedResponse, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
 
-export function registerGithubSearchTool(server: McpServer, config?: { exaApiKey?: string }): void {
+export function registerGithubSearchTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
   server.tool(
     "github_search",
     "Searches GitHub repositories and code. Returns: repos, code snippets, READMEs. Use when: looking for code examples or open source projects.",
@@ -20,13 +26,18 @@ export function registerGithubSearchTool(server: McpServer, config?: { exaApiKey
       ),
       output_format: z.enum(['markdown', 'json']).optional().describe(
         "Response format: markdown (human-readable, default) or json (code-friendly for filtering/transformation)"
-      )
+      ),
+      ...contentModeParams,
+      ...dateRangeParams,
+      ...domainFilterParams,
+      ...cacheTtlParams
     },
-    async ({ query, searchType, numResults, content_level, output_format }) => {
+    async ({ query, searchType, numResults, content_level, output_format, content_mode, cache_ttl, ...filterArgs }, extra) => {
       const requestId = `github_search-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-      const logger = createRequestLogger(requestId, 'github_search');
+      const logger = createRequestLogger(requestId, 'github_search', extra, server);
       
       logger.start(`${query} (${searchType || 'all'})`);
+      const progress = createProgressReporter(extra);
       
       try {
         // Use shared axios client with keep-alive
@@ -43,6 +54,8 @@ export function registerGithubSearchTool(server: McpServer, config?: { exaApiKey
           searchQuery = `${query} GitHub`;
         }
 
+        const dateRange = resolveDateRange(filterArgs);
+
         const searchRequest: ExaSearchRequest = {
           query: searchQuery,
           type: "neural",
@@ -51,16 +64,19 @@ export function registerGithubSearchTool(server: McpServer, config?: { exaApiKey
             text: {
               maxCharacters: API_CONFIG.DEFAULT_MAX_CHARACTERS
             },
-            livecrawl: 'fallback'
+            livecrawl: 'fallback',
+            ...buildContentModeContents(content_mode, query)
           },
-          includeDomains: ["github.com"]
+          ...resolveDomainFilters(["github.com"], filterArgs),
+          ...dateRange
         };
         
         logger.log("Sending request to Exa API for GitHub search");
         
-        const response = await axiosInstance.post<ExaSearchResponse>(
-          API_CONFIG.ENDPOINTS.SEARCH,
-          searchRequest
+        const response = await withProgress(
+          progress,
+          cachedPost<ExaSearchResponse>(axiosInstance, API_CONFIG.ENDPOINTS.SEARCH, searchRequest, getCacheOwner(config)),
+          "Searching GitHub"
         );
         
         logger.log("Received response from Exa API");
@@ -85,7 +101,8 @@ export function registerGithubSearchTool(server: McpServer, config?: { exaApiKey
           const jsonResponse = formatSearchResponseJSON(
             response.data,
             query,
-            actualContentLevel
+            actualContentLevel,
+            { tool: 'github_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'github_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
@@ -104,7 +121,8 @@ export function registerGithubSearchTool(server: McpServer, config?: { exaApiKey
             response.data,
             query,
             actualContentLevel,
-            25000
+            25000,
+            { tool: 'github_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'github_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
@@ -121,27 +139,23 @@ export function registerGithubSearchTool(server: McpServer, config?: { exaApiKey
         }
       } catch (error) {
         logger.error(error);
-        
-        if (axios.isAxiosError(error)) {
-          // Handle Axios errors specifically
-          const statusCode = error.response?.status || 'unknown';
-          const errorMessage = error.response?.data?.message || error.message;
-          
-          logger.log(`Axios error (${statusCode}): ${errorMessage}`);
+
+        // Exa is down: fall back to recent cached results for the same query
+        const degraded = formatDegradedResponse(error, getCacheOwner(config), 'github_search', query, output_format);
+        if (degraded) {
+          logger.log("Circuit open, serving stale cached results");
           return {
             content: [{
               type: "text" as const,
-              text: `GitHub search error (${statusCode}): ${errorMessage}`
-            }],
-            isError: true,
+              text: degraded
+            }]
           };
         }
         
-        // Handle generic errors
         return {
           content: [{
             type: "text" as const,
-            text: `GitHub search error: ${error instanceof Error ? error.message : String(error)}`
+            text: formatErrorResponse(error, query, output_format)
           }],
           isError: true,
         };
@@ -1,13 +1,19 @@
 import { z } from "zod";
-import axios from "axios";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { API_CONFIG } from "./config.js";
 import { ExaSearchRequest, ExaSearchResponse } from "../types.js";
 import { createRequestLogger } from "../utils/logger.js";
-import { getExaClient } from "../utils/axiosClient.js";
-import { formatSearchResponse, formatSearchResponseJSON, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
+import { getExaClient, ExaClientConfig } from "../utils/axiosClient.js";
+import { cachedPost } from "../utils/responseCache.js";
+import { getCacheOwner } from "../utils/resultCache.js";
+import { createProgressReporter, withProgress } from "../utils/progress.js";
+import { dateRangeParams, resolveDateRange } from "../utils/dateRange.js";
+import { cacheTtlParams, resolveCacheTtl, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { domainFilterParams, resolveDomainFilters } from "../utils/domainFilters.js";
+import { contentModeParams, buildContentModeContents } from "../utils/contentMode.js";
+import { formatSearchResponse, formatSearchResponseJSON, formatDegradedResponse, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
 
-export function registerResearchPaperSearchTool(server: McpServer, config?: { exaApiKey?: string }): void {
+export function registerResearchPaperSearchTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
   server.tool(
     "academic_search",
     "Searches academic papers and research. Returns: paper abstracts, citations, authors. Use when: need peer-reviewed sources.",
@@ -19,18 +25,25 @@ export function registerResearchPaperSearchTool(server: McpServer, config?: { ex
       ),
       output_format: z.enum(['markdown', 'json']).optional().describe(
         "Response format: markdown (human-readable, default) or json (code-friendly for filtering/transformation)"
-      )
+      ),
+      ...contentModeParams,
+      ...dateRangeParams,
+      ...domainFilterParams,
+      ...cacheTtlParams
     },
-    async ({ query, numResults, content_level, output_format }) => {
+    async ({ query, numResults, content_level, output_format, content_mode, cache_ttl, ...filterArgs }, extra) => {
       const requestId = `academic_search-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-      const logger = createRequestLogger(requestId, 'academic_search');
+      const logger = createRequestLogger(requestId, 'academic_search', extra, server);
       
       logger.start(query);
+      const progress = createProgressReporter(extra);
       
       try {
         // Use shared axios client with keep-alive
         const axiosInstance = getExaClient(config);
 
+        const dateRange = resolveDateRange(filterArgs);
+
         const searchRequest: ExaSearchRequest = {
           query: `${query} academic paper research study`,
           type: "neural",
@@ -39,16 +52,19 @@ export function registerResearchPaperSearchTool(server: McpServer, config?: { ex
             text: {
               maxCharacters: API_CONFIG.DEFAULT_MAX_CHARACTERS
             },
-            livecrawl: 'fallback'
+            livecrawl: 'fallback',
+            ...buildContentModeContents(content_mode, query)
           },
-          includeDomains: ["arxiv.org", "scholar.google.com", "researchgate.net", "pubmed.ncbi.nlm.nih.gov", "ieee.org", "acm.org"]
+          ...resolveDomainFilters(["arxiv.org", "scholar.google.com", "researchgate.net", "pubmed.ncbi.nlm.nih.gov", "ieee.org", "acm.org"], filterArgs),
+          ...dateRange
         };
         
         logger.log("Sending request to Exa API for research papers");
         
-        const response = await axiosInstance.post<ExaSearchResponse>(
-          API_CONFIG.ENDPOINTS.SEARCH,
-          searchRequest
+        const response = await withProgress(
+          progress,
+          cachedPost<ExaSearchResponse>(axiosInstance, API_CONFIG.ENDPOINTS.SEARCH, searchRequest, getCacheOwner(config)),
+          "Searching academic sources"
         );
         
         logger.log("Received response from Exa API");
@@ -74,7 +90,8 @@ export function registerResearchPaperSearchTool(server: McpServer, config?: { ex
           const jsonResponse = formatSearchResponseJSON(
             response.data,
             query,
-            actualContentLevel
+            actualContentLevel,
+            { tool: 'academic_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'academic_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
@@ -94,7 +111,8 @@ export function registerResearchPaperSearchTool(server: McpServer, config?: { ex
             response.data,
             query,
             actualContentLevel,
-            25000 // Safe limit to prevent 32K overflow
+            25000, // Safe limit to prevent 32K overflow
+            { tool: 'academic_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'academic_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
@@ -111,27 +129,23 @@ export function registerResearchPaperSearchTool(server: McpServer, config?: { ex
         }
       } catch (error) {
         logger.error(error);
-        
-        if (axios.isAxiosError(error)) {
-          // Handle Axios errors specifically
-          const statusCode = error.response?.status || 'unknown';
-          const errorMessage = error.response?.data?.message || error.message;
-          
-          logger.log(`Axios error (${statusCode}): ${errorMessage}`);
+
+        // Exa is down: fall back to recent cached results for the same query
+        const degraded = formatDegradedResponse(error, getCacheOwner(config), 'academic_search', query, output_format);
+        if (degraded) {
+          logger.log("Circuit open, serving stale cached results");
           return {
             content: [{
               type: "text" as const,
-              text: `Research paper search error (${statusCode}): ${errorMessage}`
-            }],
-            isError: true,
+              text: degraded
+            }]
           };
         }
         
-        // Handle generic errors
         return {
           content: [{
             type: "text" as const,
-            text: `Research paper search error: ${error instanceof Error ? error.message : String(error)}`
+            text: formatErrorResponse(error, query, output_format)
           }],
           isError: true,
         };
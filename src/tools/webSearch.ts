@@ -12,14 +12,20 @@ import { z } from "zod";
 import axios from "axios";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { API_CONFIG } from "./config.js";
-import { ExaSearchRequest, ExaSearchResponse } from "../types.js";
+import { ExaSearchRequest, ExaSearchResponse, ExaSearchResult } from "../types.js";
 import { createRequestLogger } from "../utils/logger.js";
-import { getExaClient } from "../utils/axiosClient.js";
-import { formatSearchResponse, formatSearchResponseJSON, formatSingleResult, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
-import { resultCache } from "../utils/resultCache.js";
-import { calculateMaxCharacters } from "../utils/tokenEstimator.js";
-
-export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?: string }): void {
+import { getExaClient, ExaClientConfig } from "../utils/axiosClient.js";
+import { cachedPost } from "../utils/responseCache.js";
+import { createProgressReporter, withProgress } from "../utils/progress.js";
+import { dateRangeParams, resolveDateRange } from "../utils/dateRange.js";
+import { cacheTtlParams, resolveCacheTtl, formatDuration, CacheTtlConfig } from "../utils/cacheTtl.js";
+import { domainFilterParams, resolveDomainFilters } from "../utils/domainFilters.js";
+import { contentModeParams, buildContentModeContents } from "../utils/contentMode.js";
+import { formatSearchResponse, formatSearchResponseJSON, formatDegradedResponse, formatSingleResult, formatResultSelection, formatErrorResponse, ContentLevel, OutputFormat } from "../utils/responseFormatter.js";
+import { resultCache, getCacheOwner, CACHE_ID_REGEX } from "../utils/resultCache.js";
+import { calculateMaxCharacters, tokensToCharacters } from "../utils/tokenEstimator.js";
+
+export function registerWebSearchTool(server: McpServer, config?: ExaClientConfig & CacheTtlConfig): void {
   // Main search tool with token-aware responses
   server.tool(
     "web_search",
@@ -42,13 +48,18 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
       ),
       max_chars_per_result: z.number().min(500).max(5000).optional().describe(
         "Override smart character limit per result (500-5000)"
-      )
+      ),
+      ...contentModeParams,
+      ...dateRangeParams,
+      ...domainFilterParams,
+      ...cacheTtlParams
     },
-    async ({ query, num_results, content_level, output_format, live_crawl, max_chars_per_result }) => {
+    async ({ query, num_results, content_level, output_format, live_crawl, max_chars_per_result, content_mode, cache_ttl, ...filterArgs }, extra) => {
       const requestId = `web_search-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
-      const logger = createRequestLogger(requestId, 'web_search');
+      const logger = createRequestLogger(requestId, 'web_search', extra, server);
 
       logger.start(query);
+      const progress = createProgressReporter(extra);
 
       try {
         // Smart defaults based on content level
@@ -64,6 +75,8 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
         // Use shared axios client with keep-alive
         const axiosInstance = getExaClient(config);
 
+        const dateRange = resolveDateRange(filterArgs);
+
         const searchRequest: ExaSearchRequest = {
           query,
           type: "auto",
@@ -72,15 +85,19 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
             text: {
               maxCharacters: maxChars
             },
-            livecrawl: live_crawl || 'auto'
-          }
+            livecrawl: live_crawl || 'auto',
+            ...buildContentModeContents(content_mode, query)
+          },
+          ...resolveDomainFilters([], filterArgs),
+          ...dateRange
         };
 
         logger.log("Sending request to Exa API");
 
-        const response = await axiosInstance.post<ExaSearchResponse>(
-          API_CONFIG.ENDPOINTS.SEARCH,
-          searchRequest
+        const response = await withProgress(
+          progress,
+          cachedPost<ExaSearchResponse>(axiosInstance, API_CONFIG.ENDPOINTS.SEARCH, searchRequest, getCacheOwner(config)),
+          "Searching the web"
         );
 
         logger.log("Received response from Exa API");
@@ -105,7 +122,8 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
           const jsonResponse = formatSearchResponseJSON(
             response.data,
             query,
-            actualContentLevel
+            actualContentLevel,
+            { tool: 'web_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'web_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted JSON response: ~${jsonResponse.metadata.tokenEstimate} tokens`);
@@ -125,7 +143,8 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
             response.data,
             query,
             actualContentLevel,
-            25000 // Safe limit to prevent 32K overflow
+            25000, // Safe limit to prevent 32K overflow
+            { tool: 'web_search', owner: getCacheOwner(config), ttl: resolveCacheTtl(config, 'web_search', cache_ttl), dateRange, upstream: response.upstream }
           );
 
           logger.log(`Formatted response: ~${formatted.metadata.totalTokens} tokens`);
@@ -144,7 +163,19 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
       } catch (error) {
         logger.error(error);
 
-        const errorText = formatErrorResponse(error as Error, query);
+        // Exa is down: fall back to recent cached results for the same query
+        const degraded = formatDegradedResponse(error, getCacheOwner(config), 'web_search', query, output_format);
+        if (degraded) {
+          logger.log("Circuit open, serving stale cached results");
+          return {
+            content: [{
+              type: "text" as const,
+              text: degraded
+            }]
+          };
+        }
+
+        const errorText = formatErrorResponse(error, query, output_format);
 
         return {
           content: [{
@@ -160,48 +191,59 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
   // Tool to retrieve specific result from cache (progressive disclosure)
   server.tool(
     "retrieve_result",
-    "Retrieve individual result from cached search by index. Use after web_search for progressive disclosure.",
+    "Retrieve individual result from cached search by index. Use after any search tool or url_content for progressive disclosure.",
     {
       cache_id: z.string().describe(
-        "Cache identifier from previous web_search response (valid 5 minutes)"
+        "Cache identifier from a previous search or url_content response (valid until the expiry shown with those results)"
       ),
       result_index: z.number().min(0).describe(
         "Zero-based index of result to retrieve (shown in search results)"
+      ),
+      offset: z.number().int().min(0).optional().describe(
+        "Start position within the document for paging long content (default: 0)"
+      ),
+      chunk_size: z.number().int().min(1).optional().describe(
+        "Chunk length for paging (default and max: ~20K tokens)"
+      ),
+      unit: z.enum(['characters', 'tokens']).optional().describe(
+        "Unit for offset and chunk_size (default: characters)"
       )
     },
-    async ({ cache_id, result_index }) => {
+    async ({ cache_id, result_index, offset, chunk_size, unit }, extra) => {
       const requestId = `retrieve_result-${Date.now()}`;
-      const logger = createRequestLogger(requestId, 'retrieve_result');
+      const logger = createRequestLogger(requestId, 'retrieve_result', extra, server);
 
       logger.start(`Cache: ${cache_id}, Index: ${result_index}`);
 
+      // Entries are scoped to the caller's API key; other tenants' IDs read as not found
+      const owner = getCacheOwner(config);
+
       try {
         // Security: Validate cache_id format to prevent path traversal
-        const CACHE_ID_REGEX = /^exa-\d+-[a-z0-9]+$/;
         if (!CACHE_ID_REGEX.test(cache_id)) {
           logger.log(`Invalid cache_id format: ${cache_id}`);
           return {
             content: [{
               type: "text" as const,
-              text: `Invalid cache ID format. Expected format: exa-{timestamp}-{random}\n\nExample: exa-1699564234-abc123`
+              text: `Invalid cache ID format. Expected format: exa-{32 hex characters}\n\nExample: exa-3f9c2a7d81e04b6a9d5c0e1f2a3b4c5d`
             }],
             isError: true
           };
         }
 
-        const cached = resultCache.getCachedResults(cache_id);
+        const cached = resultCache.getCachedResults(cache_id, owner);
 
         if (!cached) {
           return {
             content: [{
               type: "text" as const,
-              text: `Cache not found or expired: ${cache_id}\n\nCaches expire after 5 minutes. Please run web_search again.`
+              text: `Cache not found or expired: ${cache_id}\n\nCaches expire after ${formatDuration(resolveCacheTtl(config))} unless the search set cache_ttl. Please run web_search again.`
             }],
             isError: true
           };
         }
 
-        const result = resultCache.getResultByIndex(cache_id, result_index);
+        const result = resultCache.getResultByIndex(cache_id, owner, result_index);
 
         if (!result) {
           return {
@@ -213,7 +255,27 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
           };
         }
 
-        const formatted = formatSingleResult(result, result_index, cache_id, cached.totalResults);
+        // Convert paging parameters to characters and cap each chunk at the safe budget
+        const toCharacters = (value: number) => unit === 'tokens' ? tokensToCharacters(value) : value;
+        const maxChunkChars = tokensToCharacters(API_CONFIG.RETRIEVE_CHUNK_TOKENS);
+        const offsetChars = toCharacters(offset || 0);
+        const chunkChars = Math.min(chunk_size ? toCharacters(chunk_size) : maxChunkChars, maxChunkChars);
+        const textLength = (result.text || '').length;
+
+        if (offsetChars > 0 && offsetChars >= textLength) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Offset ${offsetChars} is past the end of the document (${textLength} characters).`
+            }],
+            isError: true
+          };
+        }
+
+        const formatted = formatSingleResult(result, result_index, cache_id, cached.totalResults, {
+          offset: offsetChars,
+          chunkSize: Math.max(1, chunkChars)
+        });
 
         logger.complete();
         return {
@@ -229,7 +291,123 @@ export function registerWebSearchTool(server: McpServer, config?: { exaApiKey?:
         return {
           content: [{
             type: "text" as const,
-            text: formatErrorResponse(error as Error)
+            text: formatErrorResponse(error)
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Tool to retrieve several results from cache in one call
+  server.tool(
+    "retrieve_results",
+    "Retrieve multiple cached results by index list or range. Use to expand several results from a search in one call.",
+    {
+      cache_id: z.string().describe(
+        "Cache identifier from a previous search or url_content response (valid until the expiry shown with those results)"
+      ),
+      indices: z.array(z.number().int().min(0)).optional().describe(
+        "Zero-based result indices to retrieve (e.g., [1, 3, 4])"
+      ),
+      start: z.number().int().min(0).optional().describe(
+        "First index of a range (inclusive); used when indices is not given"
+      ),
+      end: z.number().int().min(0).optional().describe(
+        "Last index of a range (inclusive, default: last result)"
+      ),
+      content_level: z.enum(['summary', 'standard', 'full']).optional().describe(
+        "Detail level per result: summary, standard, or full. Default: standard"
+      )
+    },
+    async ({ cache_id, indices, start, end, content_level }, extra) => {
+      const requestId = `retrieve_results-${Date.now()}`;
+      const logger = createRequestLogger(requestId, 'retrieve_results', extra, server);
+
+      logger.start(`Cache: ${cache_id}, Indices: ${indices ? indices.join(',') : `${start ?? 0}-${end ?? 'end'}`}`);
+
+      // Entries are scoped to the caller's API key; other tenants' IDs read as not found
+      const owner = getCacheOwner(config);
+
+      try {
+        // Security: Validate cache_id format to prevent path traversal
+        if (!CACHE_ID_REGEX.test(cache_id)) {
+          logger.log(`Invalid cache_id format: ${cache_id}`);
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Invalid cache ID format. Expected format: exa-{32 hex characters}\n\nExample: exa-3f9c2a7d81e04b6a9d5c0e1f2a3b4c5d`
+            }],
+            isError: true
+          };
+        }
+
+        const cached = resultCache.getCachedResults(cache_id, owner);
+
+        if (!cached) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Cache not found or expired: ${cache_id}\n\nCaches expire after ${formatDuration(resolveCacheTtl(config))} unless the search set cache_ttl. Please run the search again.`
+            }],
+            isError: true
+          };
+        }
+
+        let selection: Array<{ index: number; result: ExaSearchResult }>;
+
+        if (indices && indices.length > 0) {
+          const unique = Array.from(new Set(indices));
+          const invalid = unique.filter(i => i >= cached.totalResults);
+          if (invalid.length > 0) {
+            return {
+              content: [{
+                type: "text" as const,
+                text: `Invalid result indices: [${invalid.join(', ')}]\n\nValid range: 0-${cached.totalResults - 1}`
+              }],
+              isError: true
+            };
+          }
+          selection = unique.map(index => ({ index, result: cached.results[index] }));
+        } else {
+          const rangeStart = start ?? 0;
+          const rangeEnd = Math.min(end ?? cached.totalResults - 1, cached.totalResults - 1);
+          const range = resultCache.getResultRange(cache_id, owner, rangeStart, rangeEnd + 1) || [];
+          if (range.length === 0) {
+            return {
+              content: [{
+                type: "text" as const,
+                text: `Invalid result range: ${rangeStart}-${end ?? 'end'}\n\nValid range: 0-${cached.totalResults - 1}`
+              }],
+              isError: true
+            };
+          }
+          selection = range.map((result, i) => ({ index: rangeStart + i, result }));
+        }
+
+        const formatted = formatResultSelection(
+          selection,
+          cache_id,
+          cached.totalResults,
+          content_level || 'standard',
+          API_CONFIG.MAX_SAFE_TOTAL_TOKENS
+        );
+
+        logger.complete(selection.length);
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatted
+          }]
+        };
+
+      } catch (error) {
+        logger.error(error);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatErrorResponse(error)
           }],
           isError: true
         };
@@ -39,6 +39,8 @@ export interface ExaCrawlRequest {
     includeHtmlTags?: boolean;
   };
   livecrawl?: 'never' | 'fallback' | 'always' | 'auto';
+  subpages?: number;
+  subpageTarget?: string[];
 }
 
 export interface ExaSearchResult {
@@ -51,6 +53,10 @@ export interface ExaSearchResult {
   image?: string;
   favicon?: string;
   score?: number;
+  highlights?: string[];
+  highlightScores?: number[];
+  summary?: string;
+  subpages?: ExaSearchResult[];
 }
 
 export interface ExaSearchResponse {
@@ -61,6 +67,21 @@ export interface ExaSearchResponse {
   results: ExaSearchResult[];
 }
 
+export interface ExaContentStatus {
+  id: string;
+  status: 'success' | 'error';
+  error?: {
+    tag?: string;
+    httpStatusCode?: number;
+  };
+}
+
+export interface ExaContentsResponse {
+  requestId: string;
+  results: ExaSearchResult[];
+  statuses?: ExaContentStatus[];
+}
+
 export interface FindSimilarRequest {
   url: string;
   numResults?: number;
@@ -0,0 +1,109 @@
+/**
+ * Access Tokens (operator mode)
+ *
+ * Lets the hosted endpoint hold the Exa API key itself while clients
+ * authenticate with access tokens issued by the operator. Each token maps to
+ * a tenant name, which isolates cached results, and an optional tool allowlist.
+ *
+ * Tokens come from EXA_MCP_ACCESS_TOKENS, a JSON object keyed by the token or
+ * by "sha256:<hex digest of the token>" so the plaintext need not be stored:
+ *   {"sha256:9f86d0...": {"name": "team-a", "tools": ["web_search", "answer"]}}
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+export interface AccessGrant {
+  name: string;       // Tenant name; cached results are only visible to the same tenant
+  tools?: string[];   // Allowed tool IDs; all tools when unset
+}
+
+interface TokenEntry {
+  hash: Buffer;
+  grant: AccessGrant;
+}
+
+const HASH_PREFIX = 'sha256:';
+
+const hashToken = (token: string): Buffer => createHash('sha256').update(token).digest();
+
+/**
+ * Parse the token map; throws on malformed configuration so it fails loudly
+ */
+function parseAccessTokens(raw: string | undefined): TokenEntry[] {
+  if (!raw?.trim()) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('EXA_MCP_ACCESS_TOKENS must be a JSON object mapping tokens to { name, tools? }');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('EXA_MCP_ACCESS_TOKENS must be a JSON object mapping tokens to { name, tools? }');
+  }
+
+  return Object.entries(parsed as Record<string, any>).map(([key, value]) => {
+    if (!value || typeof value.name !== 'string' || !value.name) {
+      throw new Error('Every EXA_MCP_ACCESS_TOKENS entry needs a name');
+    }
+    if (value.tools !== undefined && (!Array.isArray(value.tools) || value.tools.length === 0)) {
+      throw new Error(`Access token "${value.name}": tools must be a non-empty array of tool IDs`);
+    }
+
+    const hash = key.startsWith(HASH_PREFIX)
+      ? Buffer.from(key.slice(HASH_PREFIX.length), 'hex')
+      : hashToken(key);
+    if (hash.length !== 32) {
+      throw new Error(`Access token "${value.name}": expected sha256:<64 hex characters>`);
+    }
+
+    return { hash, grant: { name: value.name, tools: value.tools } };
+  });
+}
+
+let entries: TokenEntry[] | null = null;
+
+// Loaded on first use so a missing variable costs nothing
+const getEntries = (): TokenEntry[] => {
+  entries ??= parseAccessTokens(process.env.EXA_MCP_ACCESS_TOKENS);
+  return entries;
+};
+
+/**
+ * Operator mode is on when any access tokens are configured
+ */
+export function isOperatorMode(): boolean {
+  return getEntries().length > 0;
+}
+
+/**
+ * Look up the grant for a presented token (constant-time comparison)
+ */
+export function authenticateAccessToken(token: string): AccessGrant | null {
+  const presented = hashToken(token);
+  let match: AccessGrant | null = null;
+
+  // Compare against every entry so timing does not reveal which one matched
+  for (const entry of getEntries()) {
+    if (timingSafeEqual(entry.hash, presented)) {
+      match = entry.grant;
+    }
+  }
+  return match;
+}
+
+/**
+ * Narrow the tools a client asked for to the token's allowlist
+ * An empty result means none of the requested tools are allowed
+ */
+export function resolveAllowedTools(grant: AccessGrant, requested?: string[]): string[] | undefined {
+  if (!grant.tools) {
+    return requested;
+  }
+  if (!requested || requested.length === 0) {
+    return grant.tools;
+  }
+  return requested.filter(tool => grant.tools!.includes(tool));
+}
@@ -1,6 +1,9 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import https from 'https';
 import { API_CONFIG } from '../tools/config.js';
+import { log } from './logger.js';
+import { KeyRateLimiter } from './rateLimiter.js';
+import { circuitBreaker } from './circuitBreaker.js';
 
 // Create a single HTTPS agent with keep-alive enabled
 const httpsAgent = new https.Agent({
@@ -12,8 +15,182 @@ const httpsAgent = new https.Agent({
   rejectUnauthorized: true // Verify SSL certificates
 });
 
+export interface ExaClientConfig {
+  exaApiKey?: string;
+  retryMaxAttempts?: number; // Total attempts per request, including the first
+  rateLimitPerSecond?: number;
+  rateLimitBurst?: number;
+  maxConcurrentRequests?: number;
+  queueTimeoutMs?: number;
+}
+
+interface RetryState {
+  maxAttempts: number;
+}
+
+// Request config carrying retry and rate limit state across attempts
+type ExaRequestConfig = InternalAxiosRequestConfig & {
+  exaAttempt?: number;
+  exaQueuedMs?: number;  // Total time spent waiting for the rate limiter
+  exaRelease?: () => void;
+};
+
+// Exa reads are safe to repeat; only transient failures are retried
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'EPIPE', 'ECONNREFUSED', 'EAI_AGAIN', 'ERR_SOCKET_CONNECTION_TIMEOUT']);
+
 // Cache axios instances by API key to truly reuse connections
 const clientCache = new Map<string, AxiosInstance>();
+const retryStates = new Map<string, RetryState>();
+const rateLimiters = new Map<string, KeyRateLimiter>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Check whether a failed request may be retried
+ * Timeouts are not retried: another full timeout would exceed MCP client limits
+ */
+function isRetryable(error: AxiosError): boolean {
+  if (error.response) {
+    return RETRYABLE_STATUS_CODES.has(error.response.status);
+  }
+  return (error.code !== undefined && RETRYABLE_ERROR_CODES.has(error.code)) || /socket hang up/i.test(error.message);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with equal jitter: half fixed, half random
+ */
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(API_CONFIG.RETRY_MAX_DELAY_MS, API_CONFIG.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+/**
+ * Gate every attempt through the key's rate limiter
+ * Slots are released as soon as a response or error arrives, before any retry backoff
+ */
+function attachRateLimitInterceptors(client: AxiosInstance, limiter: KeyRateLimiter): void {
+  client.interceptors.request.use(async (config) => {
+    const permit = await limiter.acquire();
+    const exaConfig = config as ExaRequestConfig;
+    exaConfig.exaRelease = permit.release;
+    exaConfig.exaQueuedMs = (exaConfig.exaQueuedMs ?? 0) + permit.waitedMs;
+
+    if (permit.waitedMs > 0) {
+      log(`[exa-client] ${config.method?.toUpperCase()} ${config.url} queued ${permit.waitedMs}ms by client-side rate limit`, 'debug');
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      (response.config as ExaRequestConfig).exaRelease?.();
+      return response;
+    },
+    (error) => {
+      (error?.config as ExaRequestConfig | undefined)?.exaRelease?.();
+      throw error;
+    }
+  );
+}
+
+/**
+ * Fail fast while Exa is down and track upstream health per attempt
+ * Registered last so its request check runs before the rate limiter queues anything
+ */
+function attachCircuitBreakerInterceptors(client: AxiosInstance): void {
+  client.interceptors.request.use((config) => {
+    circuitBreaker.beforeRequest();
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      circuitBreaker.recordSuccess();
+      return response;
+    },
+    (error) => {
+      if (axios.isAxiosError(error)) {
+        if (!error.response || error.response.status >= 500) {
+          circuitBreaker.recordFailure();
+        } else {
+          circuitBreaker.recordSuccess();
+        }
+      }
+      throw error;
+    }
+  );
+}
+
+/**
+ * Time a response spent queued behind the client-side rate limiter, across all attempts
+ */
+export function getQueueDelay(response: AxiosResponse): number {
+  return (response.config as ExaRequestConfig).exaQueuedMs ?? 0;
+}
+
+/**
+ * Retry transient failures, honoring Retry-After when the server sends one
+ */
+function attachRetryInterceptor(client: AxiosInstance, state: RetryState): void {
+  client.interceptors.response.use(
+    (response) => {
+      const attempt = (response.config as ExaRequestConfig).exaAttempt ?? 1;
+      if (attempt > 1) {
+        log(`[exa-client] ${response.config.method?.toUpperCase()} ${response.config.url} succeeded on attempt ${attempt}/${state.maxAttempts}`, 'info');
+      }
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config as ExaRequestConfig | undefined;
+      if (!config) {
+        throw error;
+      }
+
+      const attempt = config.exaAttempt ?? 1;
+      const reason = error.response ? `HTTP ${error.response.status}` : (error.code || error.message);
+      const target = `${config.method?.toUpperCase()} ${config.url}`;
+
+      if (attempt >= state.maxAttempts || !isRetryable(error)) {
+        if (attempt > 1) {
+          log(`[exa-client] ${target} failed on attempt ${attempt}/${state.maxAttempts} (${reason}), giving up`, 'warn');
+        }
+        throw error;
+      }
+
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      if (retryAfter !== null && retryAfter > API_CONFIG.RETRY_MAX_DELAY_MS) {
+        // Waiting this long would outlast the tool call; surface the error instead
+        log(`[exa-client] ${target} failed on attempt ${attempt}/${state.maxAttempts} (${reason}), Retry-After ${Math.round(retryAfter / 1000)}s too long, giving up`, 'warn');
+        throw error;
+      }
+
+      const delay = retryAfter ?? backoffDelay(attempt);
+      log(`[exa-client] ${target} failed on attempt ${attempt}/${state.maxAttempts} (${reason}), retrying in ${delay}ms`, 'warn');
+
+      await sleep(delay);
+      config.exaAttempt = attempt + 1;
+      return client.request(config);
+    }
+  );
+}
 
 // Create or get cached axios instance
 const createExaClient = (apiKey: string): AxiosInstance => {
@@ -36,18 +213,46 @@ const createExaClient = (apiKey: string): AxiosInstance => {
     validateStatus: (status) => status >= 200 && status < 300 // Only 2xx is success
   });
 
+  const state: RetryState = { maxAttempts: API_CONFIG.RETRY_MAX_ATTEMPTS };
+  const limiter = new KeyRateLimiter();
+
+  // Request interceptors run in reverse registration order, response interceptors in order:
+  // breaker check -> rate limit -> request -> release slot -> record health -> retry
+  attachRateLimitInterceptors(client, limiter);
+  attachCircuitBreakerInterceptors(client);
+  attachRetryInterceptor(client, state);
+
   clientCache.set(apiKey, client);
+  retryStates.set(apiKey, state);
+  rateLimiters.set(apiKey, limiter);
   return client;
 };
 
 // Export a factory function that tools can use
-export const getExaClient = (config?: { exaApiKey?: string }): AxiosInstance => {
+export const getExaClient = (config?: ExaClientConfig): AxiosInstance => {
   const apiKey = config?.exaApiKey || process.env.EXA_API_KEY || '';
-  
+
   // Naive cache size limit to prevent unbounded growth
   if (clientCache.size > 50) {
     clientCache.clear();
+    retryStates.clear();
+    rateLimiters.clear();
+  }
+
+  const client = createExaClient(apiKey);
+
+  // Latest config wins for a shared client
+  const state = retryStates.get(apiKey);
+  if (state && config?.retryMaxAttempts !== undefined) {
+    state.maxAttempts = Math.max(1, config.retryMaxAttempts);
   }
-  
-  return createExaClient(apiKey);
-};
\ No newline at end of file
+
+  rateLimiters.get(apiKey)?.configure({
+    requestsPerSecond: config?.rateLimitPerSecond,
+    burst: config?.rateLimitBurst,
+    maxConcurrent: config?.maxConcurrentRequests,
+    queueTimeoutMs: config?.queueTimeoutMs
+  });
+
+  return client;
+};
@@ -0,0 +1,66 @@
+/**
+ * Cache Payload Encryption
+ *
+ * Optional AES-256-GCM sealing of cached search payloads. Entry metadata
+ * (cache ID, timestamp, TTL) stays in the clear so expiry and capacity
+ * trimming never decrypt anything, but it is bound to the ciphertext as
+ * associated data: altering either one makes the entry unreadable.
+ *
+ * Sealed payload format: "enc:v1:" + base64(iv | auth tag | ciphertext)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Fixed salt: the key must be reproducible across processes sharing one cache
+const KEY_SALT = 'exa-mcp-server/result-cache';
+
+export interface PayloadCipher {
+  seal(plaintext: string, associatedData: string): string;
+  /** Returns null for plaintext, malformed or tampered payloads */
+  open(payload: string, associatedData: string): string | null;
+}
+
+/**
+ * Create a cipher from a secret (passphrase or random key material)
+ */
+export function createPayloadCipher(secret: string): PayloadCipher {
+  const key = scryptSync(secret, KEY_SALT, 32);
+
+  return {
+    seal(plaintext: string, associatedData: string): string {
+      const iv = randomBytes(IV_BYTES);
+      const cipher = createCipheriv('aes-256-gcm', key, iv);
+      cipher.setAAD(Buffer.from(associatedData, 'utf-8'));
+      const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+      return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+    },
+
+    open(payload: string, associatedData: string): string | null {
+      if (!payload.startsWith(PREFIX)) {
+        return null;
+      }
+
+      const sealed = Buffer.from(payload.slice(PREFIX.length), 'base64');
+      if (sealed.length < IV_BYTES + TAG_BYTES) {
+        return null;
+      }
+
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_BYTES));
+        decipher.setAAD(Buffer.from(associatedData, 'utf-8'));
+        decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+        return Buffer.concat([
+          decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)),
+          decipher.final()
+        ]).toString('utf-8');
+      } catch (error) {
+        // Wrong key or modified ciphertext/metadata
+        return null;
+      }
+    }
+  };
+}
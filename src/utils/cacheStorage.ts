@@ -0,0 +1,304 @@
+/**
+ * Cache Storage Backends
+ *
+ * Pluggable persistence for ResultCacheManager. Each backend stores opaque
+ * payloads alongside the timestamp/TTL needed to expire them, so expiry and
+ * capacity trimming never need to parse the cached search itself.
+ *
+ * Backends:
+ * - memory:     In-process LRU (fastest; not shared between processes)
+ * - filesystem: One JSON file per entry, metadata in a sidecar file name
+ *               (default; shared on a common volume)
+ * - sqlite:     Single SQLite file via better-sqlite3 (shared on a common volume)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createRequire } from 'module';
+import type BetterSqlite3 from 'better-sqlite3';
+
+export type CacheBackend = 'memory' | 'filesystem' | 'sqlite';
+
+export interface CacheRecordMeta {
+  cacheId: string;
+  timestamp: number;
+  ttl: number; // Time to live in milliseconds
+  owner?: string; // Hashed tenant ID, kept outside the payload for per-tenant capacity limits
+}
+
+export interface CacheRecord extends CacheRecordMeta {
+  payload: string;
+}
+
+export interface CacheStorage {
+  readonly backend: CacheBackend;
+  readonly location: string;
+  get(cacheId: string): CacheRecord | null;
+  set(record: CacheRecord): void;
+  delete(cacheId: string): boolean;
+  /** Entry metadata in eviction order (least recently used / oldest first), optionally for one owner */
+  list(owner?: string): CacheRecordMeta[];
+  size(): number;
+  close(): void;
+}
+
+export interface CacheStorageOptions {
+  backend?: CacheBackend;
+  path?: string;
+}
+
+/**
+ * In-memory LRU backend
+ * Map iteration order doubles as recency order: reads move entries to the end
+ */
+export class MemoryCacheStorage implements CacheStorage {
+  readonly backend = 'memory' as const;
+  readonly location = 'memory';
+  private entries = new Map<string, CacheRecord>();
+
+  get(cacheId: string): CacheRecord | null {
+    const record = this.entries.get(cacheId);
+    if (!record) {
+      return null;
+    }
+    this.entries.delete(cacheId);
+    this.entries.set(cacheId, record);
+    return record;
+  }
+
+  set(record: CacheRecord): void {
+    this.entries.delete(record.cacheId);
+    this.entries.set(record.cacheId, record);
+  }
+
+  delete(cacheId: string): boolean {
+    return this.entries.delete(cacheId);
+  }
+
+  list(owner?: string): CacheRecordMeta[] {
+    return Array.from(this.entries.values())
+      .filter(record => owner === undefined || record.owner === owner)
+      .map(({ cacheId, timestamp, ttl, owner }) => ({ cacheId, timestamp, ttl, owner }));
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  close(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Filesystem backend: one JSON file per cache entry
+ * Each entry also gets an empty "<cacheId>.<owner>.<timestamp>.<ttl>.meta" file,
+ * so listing entries only reads the directory, never the (large) payloads
+ */
+export class FileCacheStorage implements CacheStorage {
+  readonly backend = 'filesystem' as const;
+  readonly location: string;
+
+  constructor(cacheDir: string = path.join(os.tmpdir(), 'exa-mcp-cache')) {
+    this.location = cacheDir;
+    if (!fs.existsSync(cacheDir)) {
+      // Owner-only: cached pages may contain sensitive research
+      fs.mkdirSync(cacheDir, { recursive: true, mode: 0o700 });
+    }
+  }
+
+  private filePath(cacheId: string): string {
+    return path.join(this.location, `${cacheId}.json`);
+  }
+
+  private metaFileName(meta: CacheRecordMeta): string {
+    // Owners are hex digests and IDs are hex, so '.' is a safe separator
+    return `${meta.cacheId}.${meta.owner || '-'}.${meta.timestamp}.${meta.ttl}.meta`;
+  }
+
+  private parseMetaFileName(file: string): CacheRecordMeta | null {
+    const [cacheId, owner, timestamp, ttl] = file.slice(0, -'.meta'.length).split('.');
+    if (!cacheId || !owner || !Number.isFinite(Number(timestamp)) || !Number.isFinite(Number(ttl))) {
+      return null;
+    }
+    return { cacheId, timestamp: Number(timestamp), ttl: Number(ttl), owner: owner === '-' ? undefined : owner };
+  }
+
+  private cacheFiles(extension: '.json' | '.meta' = '.json'): string[] {
+    if (!fs.existsSync(this.location)) {
+      return [];
+    }
+    return fs.readdirSync(this.location).filter(f => f.startsWith('exa-') && f.endsWith(extension));
+  }
+
+  get(cacheId: string): CacheRecord | null {
+    const filePath = this.filePath(cacheId);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const record: CacheRecord = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return typeof record.payload === 'string' ? record : null;
+    } catch (error) {
+      // Corrupted or partially written file - treat as a miss
+      return null;
+    }
+  }
+
+  set(record: CacheRecord): void {
+    fs.writeFileSync(this.filePath(record.cacheId), JSON.stringify(record), { encoding: 'utf-8', mode: 0o600 });
+    fs.writeFileSync(path.join(this.location, this.metaFileName(record)), '', { mode: 0o600 });
+  }
+
+  delete(cacheId: string): boolean {
+    for (const file of this.cacheFiles('.meta').filter(f => f.startsWith(`${cacheId}.`))) {
+      fs.rmSync(path.join(this.location, file), { force: true });
+    }
+
+    const filePath = this.filePath(cacheId);
+
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+
+    fs.unlinkSync(filePath);
+    return true;
+  }
+
+  list(owner?: string): CacheRecordMeta[] {
+    const sidecars = new Map<string, CacheRecordMeta>();
+    for (const file of this.cacheFiles('.meta')) {
+      const meta = this.parseMetaFileName(file);
+      if (meta) {
+        sidecars.set(meta.cacheId, meta);
+      }
+    }
+
+    const metas: CacheRecordMeta[] = [];
+
+    for (const file of this.cacheFiles()) {
+      const cacheId = file.slice(0, -'.json'.length);
+      let meta = sidecars.get(cacheId);
+
+      if (!meta) {
+        // Entries written before sidecars existed: read the record itself
+        // Unreadable files get a zero timestamp so cleanup expires them first
+        const record = this.get(cacheId);
+        meta = record
+          ? { cacheId, timestamp: record.timestamp, ttl: record.ttl, owner: record.owner }
+          : { cacheId, timestamp: 0, ttl: 0 };
+      }
+
+      if (owner === undefined || meta.owner === owner) {
+        metas.push(meta);
+      }
+    }
+
+    return metas.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  size(): number {
+    return this.cacheFiles().length;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
+
+/**
+ * SQLite backend: all entries in one database file
+ * better-sqlite3 is an optional dependency, loaded only when this backend is selected
+ */
+export class SqliteCacheStorage implements CacheStorage {
+  readonly backend = 'sqlite' as const;
+  readonly location: string;
+  private db: BetterSqlite3.Database;
+
+  constructor(dbPath: string = path.join(os.tmpdir(), 'exa-mcp-cache.sqlite')) {
+    this.location = dbPath;
+
+    // The stdio build is bundled to CommonJS, where require is already defined
+    const load = typeof require === 'function' ? require : createRequire(import.meta.url);
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = load('better-sqlite3');
+    } catch (error) {
+      throw new Error(`SQLite cache backend requires the optional 'better-sqlite3' package: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS exa_cache (
+        cache_id TEXT PRIMARY KEY,
+        timestamp INTEGER NOT NULL,
+        ttl INTEGER NOT NULL,
+        owner TEXT NOT NULL DEFAULT '',
+        payload TEXT NOT NULL
+      )
+    `);
+
+    // Databases created before per-tenant limits lack the owner column
+    const columns = this.db.prepare('PRAGMA table_info(exa_cache)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'owner')) {
+      this.db.exec("ALTER TABLE exa_cache ADD COLUMN owner TEXT NOT NULL DEFAULT ''");
+    }
+  }
+
+  get(cacheId: string): CacheRecord | null {
+    const row = this.db
+      .prepare('SELECT cache_id AS cacheId, timestamp, ttl, owner, payload FROM exa_cache WHERE cache_id = ?')
+      .get(cacheId) as CacheRecord | undefined;
+    return row || null;
+  }
+
+  set(record: CacheRecord): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO exa_cache (cache_id, timestamp, ttl, owner, payload) VALUES (?, ?, ?, ?, ?)')
+      .run(record.cacheId, record.timestamp, record.ttl, record.owner ?? '', record.payload);
+  }
+
+  delete(cacheId: string): boolean {
+    return this.db.prepare('DELETE FROM exa_cache WHERE cache_id = ?').run(cacheId).changes > 0;
+  }
+
+  list(owner?: string): CacheRecordMeta[] {
+    if (owner !== undefined) {
+      return this.db
+        .prepare('SELECT cache_id AS cacheId, timestamp, ttl, owner FROM exa_cache WHERE owner = ? ORDER BY timestamp ASC')
+        .all(owner) as CacheRecordMeta[];
+    }
+    return this.db
+      .prepare('SELECT cache_id AS cacheId, timestamp, ttl, owner FROM exa_cache ORDER BY timestamp ASC')
+      .all() as CacheRecordMeta[];
+  }
+
+  size(): number {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM exa_cache').get() as { count: number };
+    return row.count;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Create a storage backend from configuration
+ */
+export function createCacheStorage(options: CacheStorageOptions = {}): CacheStorage {
+  switch (options.backend) {
+    case 'memory':
+      return new MemoryCacheStorage();
+    case 'sqlite':
+      return new SqliteCacheStorage(options.path);
+    case 'filesystem':
+    default:
+      return new FileCacheStorage(options.path);
+  }
+}
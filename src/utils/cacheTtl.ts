@@ -0,0 +1,61 @@
+/**
+ * Result Cache TTL
+ *
+ * How long search results stay retrievable via retrieve_result. Resolved
+ * per call, most specific first:
+ * 1. cache_ttl tool parameter
+ * 2. cacheTtlByTool[toolName] server config
+ * 3. cacheTtlSeconds server config
+ * 4. API_CONFIG.CACHE_TTL_MS
+ */
+
+import { z } from "zod";
+import { API_CONFIG } from "../tools/config.js";
+
+export const MAX_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export interface CacheTtlConfig {
+  cacheTtlSeconds?: number;
+  cacheTtlByTool?: Record<string, number>;
+}
+
+/**
+ * Tool parameter shape shared by every tool that caches results
+ */
+export const cacheTtlParams = {
+  cache_ttl: z.number().int().min(60).max(MAX_CACHE_TTL_SECONDS).optional().describe(
+    "Seconds to keep these results available to retrieve_result (60-604800, default: server setting, normally 300)"
+  )
+};
+
+/**
+ * Resolve the TTL in milliseconds for one tool call
+ * Without a tool name this is the server-wide default
+ */
+export function resolveCacheTtl(config: CacheTtlConfig | undefined, toolName?: string, cacheTtl?: number): number {
+  const toolTtl = toolName ? config?.cacheTtlByTool?.[toolName] : undefined;
+  const seconds = cacheTtl ?? toolTtl ?? config?.cacheTtlSeconds;
+  return seconds !== undefined ? seconds * 1000 : API_CONFIG.CACHE_TTL_MS;
+}
+
+/**
+ * Render a TTL as a short human-readable duration (e.g. '5 minutes', '1 hour 30 minutes')
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const units: Array<[number, string]> = [[86400, 'day'], [3600, 'hour'], [60, 'minute'], [1, 'second']];
+  const plural = (value: number, name: string) => `${value} ${name}${value === 1 ? '' : 's'}`;
+
+  for (let i = 0; i < units.length - 1; i++) {
+    const [size, name] = units[i];
+    if (seconds >= size) {
+      // Largest unit plus the next smaller one, e.g. '2 days 3 hours'
+      const [nextSize, nextName] = units[i + 1];
+      const whole = Math.floor(seconds / size);
+      const rest = Math.floor((seconds % size) / nextSize);
+      return rest > 0 ? `${plural(whole, name)} ${plural(rest, nextName)}` : plural(whole, name);
+    }
+  }
+
+  return plural(seconds, 'second');
+}
@@ -0,0 +1,90 @@
+/**
+ * Circuit Breaker
+ *
+ * Shared across every Exa client: an outage affects all API keys alike.
+ *
+ * States:
+ * - closed:    Requests flow; consecutive upstream failures are counted
+ * - open:      Requests fail immediately with CircuitOpenError until the cooldown ends
+ * - half-open: One probe request is let through; success closes, failure re-opens
+ *
+ * Only upstream health counts as failure (5xx, timeouts, network errors).
+ * Any other response, including 401 or 429, proves Exa is answering.
+ */
+
+import { API_CONFIG } from '../tools/config.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Raised instead of calling Exa while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAfterMs: number) {
+    super(`Exa API is unavailable after repeated failures; requests are paused for ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private probeStartedAt = 0;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Throw CircuitOpenError unless a request may be sent now
+   */
+  public beforeRequest(): void {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    const elapsed = Date.now() - this.openedAt;
+    if (this.state === 'open' && elapsed >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+
+    // A probe that never reported back (e.g. rejected before sending) expires after one cooldown
+    const probeExpired = this.probeInFlight && Date.now() - this.probeStartedAt >= this.resetTimeoutMs;
+
+    if (this.state === 'half-open' && (!this.probeInFlight || probeExpired)) {
+      this.probeInFlight = true;
+      this.probeStartedAt = Date.now();
+      return;
+    }
+
+    throw new CircuitOpenError(Math.max(1000, this.resetTimeoutMs - elapsed));
+  }
+
+  public recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures += 1;
+    this.probeInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+}
+
+export const circuitBreaker = new CircuitBreaker(
+  API_CONFIG.CIRCUIT_FAILURE_THRESHOLD,
+  API_CONFIG.CIRCUIT_RESET_MS
+);
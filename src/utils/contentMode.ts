@@ -0,0 +1,49 @@
+/**
+ * Content Modes
+ *
+ * Lets search tools ask Exa for query-relevant highlights and/or a
+ * per-result summary alongside page text. These replace the naive
+ * first-N-characters preview in summary/standard responses.
+ */
+
+import { z } from "zod";
+import { ExaSearchRequest } from "../types.js";
+
+export type ContentMode = 'text' | 'highlights' | 'summary' | 'highlights_and_summary';
+
+const HIGHLIGHTS_PER_URL = 3;
+const HIGHLIGHT_SENTENCES = 2;
+
+/**
+ * Tool parameter shape shared by every search tool
+ */
+export const contentModeParams = {
+  content_mode: z.enum(['text', 'highlights', 'summary', 'highlights_and_summary']).optional().describe(
+    "Extra extraction: highlights (query-relevant excerpts), summary (per-result abstract), or both. Default: text only"
+  )
+};
+
+/**
+ * Build the highlights/summary part of an Exa contents request
+ * Without a query, Exa picks highlights and summaries from the page itself
+ */
+export function buildContentModeContents(
+  mode: ContentMode | undefined,
+  query?: string
+): Pick<NonNullable<ExaSearchRequest['contents']>, 'highlights' | 'summary'> {
+  const contents: Pick<NonNullable<ExaSearchRequest['contents']>, 'highlights' | 'summary'> = {};
+
+  if (mode === 'highlights' || mode === 'highlights_and_summary') {
+    contents.highlights = {
+      ...(query ? { query } : {}),
+      highlightsPerUrl: HIGHLIGHTS_PER_URL,
+      numSentences: HIGHLIGHT_SENTENCES
+    };
+  }
+
+  if (mode === 'summary' || mode === 'highlights_and_summary') {
+    contents.summary = query ? { query } : {};
+  }
+
+  return contents;
+}
@@ -0,0 +1,164 @@
+/**
+ * Date Range Filters
+ *
+ * Shared published/crawl date parameters for search tools.
+ * Accepts ISO dates ('2024-01-31', '2024-01-31T12:00:00Z') or relative
+ * windows counted back from now ('24h', '7d', '2w', '3m', '1y').
+ * A date-only end ('2024-01-31') covers that whole day.
+ */
+
+import { z } from "zod";
+import { ValidationError } from "./errors.js";
+
+export interface DateRange {
+  startPublishedDate?: string;
+  endPublishedDate?: string;
+  startCrawlDate?: string;
+  endCrawlDate?: string;
+}
+
+const DATE_RANGE_REMEDIATION = ['Dates must be ISO (2024-01-31) or relative (7d); start must be before end'];
+
+const RELATIVE_DATE_REGEX = /^(\d+)\s*([hdwmy])$/i;
+const ISO_DATE_PREFIX_REGEX = /^(\d{4})-(\d{2})(?:-(\d{2}))?/;
+
+/**
+ * Parse an ISO or relative date into an ISO 8601 timestamp
+ * Returns null when the input is not a recognizable date, including impossible
+ * calendar dates like '2024-02-30' that Date would otherwise roll over.
+ * With endOfDay, a date-only input resolves to the last millisecond of that day (or month)
+ */
+export function parseDateInput(value: string, now: Date = new Date(), endOfDay = false): string | null {
+  const trimmed = value.trim();
+  const relative = trimmed.match(RELATIVE_DATE_REGEX);
+
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    const date = new Date(now.getTime());
+
+    switch (relative[2].toLowerCase()) {
+      case 'h':
+        date.setUTCHours(date.getUTCHours() - amount);
+        break;
+      case 'd':
+        date.setUTCDate(date.getUTCDate() - amount);
+        break;
+      case 'w':
+        date.setUTCDate(date.getUTCDate() - amount * 7);
+        break;
+      case 'm':
+        date.setUTCMonth(date.getUTCMonth() - amount);
+        break;
+      case 'y':
+        date.setUTCFullYear(date.getUTCFullYear() - amount);
+        break;
+    }
+
+    // Whole minutes keep repeated relative windows identical for the response cache
+    date.setUTCSeconds(0, 0);
+    return date.toISOString();
+  }
+
+  // Require an ISO-looking prefix so free text like 'last week' is rejected
+  const prefix = trimmed.match(ISO_DATE_PREFIX_REGEX);
+  if (!prefix) {
+    return null;
+  }
+
+  // The typed year/month/day must exist on the calendar
+  const [year, month, day] = [Number(prefix[1]), Number(prefix[2]), Number(prefix[3] ?? 1)];
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  if (calendarDate.getUTCFullYear() !== year || calendarDate.getUTCMonth() !== month - 1 || calendarDate.getUTCDate() !== day) {
+    return null;
+  }
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) {
+    return null;
+  }
+
+  if (endOfDay && prefix[0] === trimmed) {
+    if (prefix[3]) {
+      parsed.setUTCDate(parsed.getUTCDate() + 1);
+    } else {
+      parsed.setUTCMonth(parsed.getUTCMonth() + 1);
+    }
+    parsed.setUTCMilliseconds(-1);
+  }
+
+  return parsed.toISOString();
+}
+
+const dateInput = (description: string) => z.string()
+  .refine(value => parseDateInput(value) !== null, {
+    message: "Expected an ISO date (e.g., '2024-01-31') or relative window (e.g., '7d', '3m')"
+  })
+  .optional()
+  .describe(description);
+
+/**
+ * Tool parameter shape shared by every search tool
+ */
+export const dateRangeParams = {
+  start_published_date: dateInput("Only results published after this date: ISO (e.g., '2024-01-01') or relative (e.g., '7d', '3m')"),
+  end_published_date: dateInput("Only results published before this date: ISO or relative"),
+  start_crawl_date: dateInput("Only results crawled after this date: ISO or relative"),
+  end_crawl_date: dateInput("Only results crawled before this date: ISO or relative")
+};
+
+/**
+ * Resolve tool date parameters into Exa request fields
+ * Throws when a start date falls after its matching end date
+ */
+export function resolveDateRange(args: {
+  start_published_date?: string;
+  end_published_date?: string;
+  start_crawl_date?: string;
+  end_crawl_date?: string;
+}): DateRange {
+  const now = new Date();
+  const range: DateRange = {};
+
+  if (args.start_published_date) {
+    range.startPublishedDate = parseDateInput(args.start_published_date, now) || undefined;
+  }
+  if (args.end_published_date) {
+    range.endPublishedDate = parseDateInput(args.end_published_date, now, true) || undefined;
+  }
+  if (args.start_crawl_date) {
+    range.startCrawlDate = parseDateInput(args.start_crawl_date, now) || undefined;
+  }
+  if (args.end_crawl_date) {
+    range.endCrawlDate = parseDateInput(args.end_crawl_date, now, true) || undefined;
+  }
+
+  if (range.startPublishedDate && range.endPublishedDate && range.startPublishedDate > range.endPublishedDate) {
+    throw new ValidationError(`start_published_date (${range.startPublishedDate}) must be before end_published_date (${range.endPublishedDate})`, DATE_RANGE_REMEDIATION);
+  }
+  if (range.startCrawlDate && range.endCrawlDate && range.startCrawlDate > range.endCrawlDate) {
+    throw new ValidationError(`start_crawl_date (${range.startCrawlDate}) must be before end_crawl_date (${range.endCrawlDate})`, DATE_RANGE_REMEDIATION);
+  }
+
+  return range;
+}
+
+/**
+ * Describe the applied date window for response metadata
+ * Returns undefined when no date filter is active
+ */
+export function formatDateRange(range?: DateRange): string | undefined {
+  if (!range) {
+    return undefined;
+  }
+
+  const windows: string[] = [];
+
+  if (range.startPublishedDate || range.endPublishedDate) {
+    windows.push(`published ${range.startPublishedDate || 'any'} → ${range.endPublishedDate || 'now'}`);
+  }
+  if (range.startCrawlDate || range.endCrawlDate) {
+    windows.push(`crawled ${range.startCrawlDate || 'any'} → ${range.endCrawlDate || 'now'}`);
+  }
+
+  return windows.length > 0 ? windows.join('; ') : undefined;
+}
@@ -0,0 +1,101 @@
+/**
+ * Domain and Phrase Filters
+ *
+ * Shared per-call include/exclude parameters for search tools.
+ * Caller domains merge with each tool's built-in domain preset unless
+ * ignore_domain_preset is set, in which case only caller domains apply.
+ */
+
+import { z } from "zod";
+import { ExaSearchRequest } from "../types.js";
+import { ValidationError } from "./errors.js";
+
+export type DomainFilters = Pick<ExaSearchRequest, 'includeDomains' | 'excludeDomains' | 'includeText' | 'excludeText'>;
+
+/**
+ * Tool parameter shape shared by every search tool
+ */
+export const domainFilterParams = {
+  include_domains: z.array(z.string()).optional().describe(
+    "Extra domains to search (merged with the tool's preset, e.g., ['biorxiv.org', 'medrxiv.org'])"
+  ),
+  exclude_domains: z.array(z.string()).optional().describe(
+    "Domains to never return (also removed from the tool's preset)"
+  ),
+  include_text: z.array(z.string()).optional().describe(
+    "Phrase that must appear in results (Exa supports one phrase of up to 5 words)"
+  ),
+  exclude_text: z.array(z.string()).optional().describe(
+    "Phrase that must not appear in results (Exa supports one phrase of up to 5 words)"
+  ),
+  ignore_domain_preset: z.boolean().optional().describe(
+    "Drop the tool's built-in domain list and use only include_domains (default: false)"
+  )
+};
+
+/**
+ * Normalize a domain: lowercase, no protocol, no path
+ */
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split('/')[0];
+}
+
+/**
+ * Check whether a domain equals or is a subdomain of another
+ */
+function matchesDomain(domain: string, parent: string): boolean {
+  return domain === parent || domain.endsWith(`.${parent}`);
+}
+
+/**
+ * Resolve tool filter parameters against a tool's domain preset
+ * Exa rejects includeDomains and excludeDomains together, so exclusions are
+ * applied to the include list whenever one is present. Tools without a preset
+ * pass [] to get the same normalization and merge rules.
+ */
+export function resolveDomainFilters(
+  preset: string[],
+  args: {
+    include_domains?: string[];
+    exclude_domains?: string[];
+    include_text?: string[];
+    exclude_text?: string[];
+    ignore_domain_preset?: boolean;
+  }
+): DomainFilters {
+  const excluded = (args.exclude_domains || []).map(normalizeDomain).filter(Boolean);
+  const base = args.ignore_domain_preset ? [] : preset;
+  const included = Array.from(new Set(
+    [...base, ...(args.include_domains || [])].map(normalizeDomain).filter(Boolean)
+  )).filter(domain => !excluded.some(ex => matchesDomain(domain, ex)));
+
+  // Excluding the whole preset would silently turn a site-specific tool into an unrestricted search
+  if (!args.ignore_domain_preset && preset.length > 0 && included.length === 0) {
+    throw new ValidationError(
+      `exclude_domains removes every domain this tool searches (${preset.join(', ')}); ` +
+      `set ignore_domain_preset to search other sites instead`
+    );
+  }
+
+  const filters: DomainFilters = {};
+
+  if (included.length > 0) {
+    filters.includeDomains = included;
+  } else if (excluded.length > 0) {
+    filters.excludeDomains = Array.from(new Set(excluded));
+  }
+
+  if (args.include_text && args.include_text.length > 0) {
+    filters.includeText = args.include_text;
+  }
+  if (args.exclude_text && args.exclude_text.length > 0) {
+    filters.excludeText = args.exclude_text;
+  }
+
+  return filters;
+}
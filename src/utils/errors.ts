@@ -0,0 +1,136 @@
+/**
+ * Error Taxonomy
+ *
+ * Classifies failures from the Exa client, the rate limiter, the circuit
+ * breaker and input validation into a fixed set of codes, so every tool
+ * reports errors with the same remediation advice and the same JSON shape.
+ */
+
+import axios from 'axios';
+import { RateLimitError } from './rateLimiter.js';
+import { CircuitOpenError } from './circuitBreaker.js';
+import { parseRetryAfter } from './axiosClient.js';
+
+export type ErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'timeout'
+  | 'upstream_5xx'
+  | 'validation'
+  | 'not_found'
+  | 'unknown';
+
+export interface ClassifiedError {
+  code: ErrorCode;
+  message: string;
+  status?: number;
+  retryable: boolean;
+  retryAfterMs: number | null;
+  remediation?: string[]; // Advice specific to this failure, shown before the code's generic advice
+}
+
+/**
+ * Raised for invalid tool input detected before calling Exa
+ * The thrower can attach advice specific to the parameters it checked
+ */
+export class ValidationError extends Error {
+  constructor(message: string, readonly remediation: string[] = []) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export const ERROR_REMEDIATION: Record<ErrorCode, string[]> = {
+  auth: [
+    'Check the Exa API key is set and valid (dashboard.exa.ai/api-keys)',
+    'Make sure the key has not been revoked or mistyped (no extra spaces or quotes)'
+  ],
+  quota: [
+    'Your Exa account is out of credits or over its plan limit',
+    'Add credits or upgrade the plan at dashboard.exa.ai, then retry'
+  ],
+  rate_limit: [
+    'Too many requests in a short time; wait before retrying',
+    'Make fewer parallel calls or lower num_results'
+  ],
+  timeout: [
+    'Exa took too long to respond; retry the call',
+    'Use fewer results, a lower content_level or live_crawl other than always'
+  ],
+  upstream_5xx: [
+    'Exa is having problems; retry in a moment',
+    'Check Exa API status: https://status.exa.ai'
+  ],
+  validation: [
+    'Fix the parameters named in the error and retry'
+  ],
+  not_found: [
+    'The requested resource does not exist; check URLs and IDs',
+    'Cache IDs expire; re-run the search to get a fresh one'
+  ],
+  unknown: [
+    'Retry the call; if it keeps failing, check Exa API status: https://status.exa.ai'
+  ]
+};
+
+const QUOTA_PATTERN = /quota|credit|billing|insufficient|payment/i;
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT']);
+
+/**
+ * Map any thrown value to an error code with retry guidance
+ */
+export function classifyError(error: unknown): ClassifiedError {
+  if (error instanceof RateLimitError) {
+    return { code: 'rate_limit', message: error.message, retryable: true, retryAfterMs: 1000 };
+  }
+
+  if (error instanceof CircuitOpenError) {
+    return { code: 'upstream_5xx', message: error.message, retryable: true, retryAfterMs: error.retryAfterMs };
+  }
+
+  if (error instanceof ValidationError) {
+    return { code: 'validation', message: error.message, retryable: false, retryAfterMs: null, remediation: error.remediation };
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const upstreamMessage = error.response?.data?.message || error.response?.data?.error;
+    const message = typeof upstreamMessage === 'string' ? upstreamMessage : error.message;
+    const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+
+    if (status === undefined) {
+      if ((error.code && TIMEOUT_CODES.has(error.code)) || /timeout/i.test(error.message)) {
+        return { code: 'timeout', message, retryable: true, retryAfterMs: null };
+      }
+      // Connection reset/refused: Exa unreachable
+      return { code: 'upstream_5xx', message, retryable: true, retryAfterMs: null };
+    }
+
+    if (status === 401 || status === 403) {
+      return { code: 'auth', message, status, retryable: false, retryAfterMs: null };
+    }
+    if (status === 402 || (status === 429 && QUOTA_PATTERN.test(message))) {
+      return { code: 'quota', message, status, retryable: false, retryAfterMs: null };
+    }
+    if (status === 429) {
+      return { code: 'rate_limit', message, status, retryable: true, retryAfterMs: retryAfterMs ?? 1000 };
+    }
+    if (status === 408 || status === 504) {
+      return { code: 'timeout', message, status, retryable: true, retryAfterMs };
+    }
+    if (status === 404) {
+      return { code: 'not_found', message, status, retryable: false, retryAfterMs: null };
+    }
+    if (status >= 500) {
+      return { code: 'upstream_5xx', message, status, retryable: true, retryAfterMs };
+    }
+    if (status === 400 || status === 422) {
+      return { code: 'validation', message, status, retryable: false, retryAfterMs: null };
+    }
+    return { code: 'unknown', message, status, retryable: false, retryAfterMs: null };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return { code: 'unknown', message, retryable: false, retryAfterMs: null };
+}
@@ -1,37 +1,148 @@
 /**
- * Simple logging utility for MCP server
- * Using console.log for better visibility in Vercel logs
+ * Leveled logging utility for MCP server
+ *
+ * Never writes to stdout: on the stdio transport stdout carries the JSON-RPC
+ * stream, so log lines go to stderr (or a file) instead. Lines are plain text
+ * by default or JSON (one object per line) for log collectors.
+ *
+ * Settings come from EXA_LOG_* environment variables only: they apply to the
+ * whole process, so no client session can change them for everyone else.
+ *
+ * Request loggers can also forward their messages to the calling client as
+ * MCP notifications/message when a client log level is configured. Forwarded
+ * messages go through the SDK, so the level a client sets with
+ * logging/setLevel filters them as well.
+ *
+ * Messages and data are redacted before they are written or forwarded.
  */
-export const log = (message: string): void => {
+
+import fs from 'fs';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolExtra } from './progress.js';
+import { redact, redactQuery, redactText } from './redact.js';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+export type LogFormat = 'text' | 'json';
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  file?: string;            // Append to this file instead of stderr
+  clientLevel?: LogLevel;   // Forward request logs at or above this level to the client
+}
+
+export interface LogContext {
+  requestId?: string;
+  tool?: string;
+  data?: unknown;
+}
+
+const SEVERITY: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// MCP uses syslog level names
+const MCP_LEVELS: Record<LogLevel, 'debug' | 'info' | 'warning' | 'error'> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+const parseLevel = (value: string | undefined): LogLevel | undefined =>
+  LOG_LEVELS.includes(value as LogLevel) ? value as LogLevel : undefined;
+
+const settings: LoggerOptions & { level: LogLevel; format: LogFormat } = {
+  level: parseLevel(process.env.EXA_LOG_LEVEL) ?? 'info',
+  format: process.env.EXA_LOG_FORMAT === 'json' ? 'json' : 'text',
+  file: process.env.EXA_LOG_FILE || undefined,
+  clientLevel: parseLevel(process.env.EXA_CLIENT_LOG_LEVEL)
+};
+
+export function isLevelEnabled(level: LogLevel): boolean {
+  return SEVERITY[level] >= SEVERITY[settings.level];
+}
+
+function formatLine(level: LogLevel, message: string, context?: LogContext): string {
   const timestamp = new Date().toISOString();
-  console.log(`[${timestamp}] [EXA-MCP] ${message}`);
+
+  if (settings.format === 'json') {
+    return JSON.stringify({
+      time: timestamp,
+      level,
+      ...(context?.requestId ? { requestId: context.requestId } : {}),
+      ...(context?.tool ? { tool: context.tool } : {}),
+      message,
+      ...(context?.data !== undefined ? { data: context.data } : {})
+    });
+  }
+
+  const scope = [context?.requestId, context?.tool].filter(Boolean).map(part => `[${part}] `).join('');
+  const data = context?.data !== undefined ? ` - ${JSON.stringify(context.data)}` : '';
+  return `[${timestamp}] [EXA-MCP] [${level.toUpperCase()}] ${scope}${message}${data}`;
+}
+
+function write(line: string): void {
+  if (settings.file) {
+    try {
+      fs.appendFileSync(settings.file, line + '\n', { mode: 0o600 });
+      return;
+    } catch {
+      // Unwritable log file: fall back to stderr rather than lose the line
+    }
+  }
+  process.stderr.write(line + '\n');
+}
+
+/**
+ * Write a log line at the given level (default: info)
+ */
+export const log = (message: string, level: LogLevel = 'info', context?: LogContext): void => {
+  if (!isLevelEnabled(level)) {
+    return;
+  }
+  const data = context?.data !== undefined ? redact(context.data) : undefined;
+  write(formatLine(level, redactText(message), { ...context, data }));
 };
 
-export const createRequestLogger = (requestId: string, toolName: string) => {
+export const createRequestLogger = (requestId: string, toolName: string, extra?: ToolExtra, server?: McpServer) => {
   const startTime = Date.now();
-  
+
+  const emit = (level: LogLevel, message: string, data?: unknown): void => {
+    log(message, level, { requestId, tool: toolName, data });
+
+    if (server && settings.clientLevel && SEVERITY[level] >= SEVERITY[settings.clientLevel]) {
+      message = redactText(message);
+      data = data !== undefined ? redact(data) : undefined;
+      // sendLoggingMessage drops messages below the session's logging/setLevel level
+      server.server.sendLoggingMessage({
+        level: MCP_LEVELS[level],
+        logger: toolName,
+        data: data !== undefined ? { requestId, message, data } : { requestId, message }
+      }, extra?.sessionId).catch(() => {
+        // Client may have disconnected or not support logging; forwarding is best-effort
+      });
+    }
+  };
+
   return {
-    log: (message: string, data?: any): void => {
-      if (data) {
-        log(`[${requestId}] [${toolName}] ${message} - ${JSON.stringify(data)}`);
-      } else {
-        log(`[${requestId}] [${toolName}] ${message}`);
-      }
-    },
+    debug: (message: string, data?: any): void => emit('debug', message, data),
+    log: (message: string, data?: any): void => emit('info', message, data),
+    warn: (message: string, data?: any): void => emit('warn', message, data),
     start: (query: string): void => {
-      log(`[${requestId}] [${toolName}] START - Query: "${query}"`);
+      emit('info', `START - Query: "${redactQuery(query)}"`);
     },
     error: (error: unknown): void => {
       const errorDetails = error instanceof Error ? {
         message: error.message,
         stack: error.stack?.split('\n').slice(0, 3).join(' | ')
       } : { error: String(error) };
-      log(`[${requestId}] [${toolName}] ERROR - ${JSON.stringify(errorDetails)}`);
+      emit('error', 'ERROR', errorDetails);
     },
     complete: (resultCount?: number): void => {
       const duration = Date.now() - startTime;
       const resultInfo = resultCount !== undefined ? ` - Results: ${resultCount}` : '';
-      log(`[${requestId}] [${toolName}] COMPLETE - Duration: ${duration}ms${resultInfo}`);
+      emit('info', `COMPLETE - Duration: ${duration}ms${resultInfo}`);
     }
   };
-}; 
\ No newline at end of file
+};
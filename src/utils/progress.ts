@@ -0,0 +1,80 @@
+/**
+ * Progress Reporter
+ *
+ * Emits MCP notifications/progress for long-running tool calls so clients
+ * can tell a slow live-crawl apart from a hung request.
+ *
+ * Notifications are only sent when the client supplied a progressToken in
+ * the request _meta; otherwise every call is a no-op.
+ */
+
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface ProgressReporter {
+  enabled: boolean;
+  report: (message: string, total?: number) => void;
+}
+
+const HEARTBEAT_INTERVAL_MS = 2000;
+
+/**
+ * Create a progress reporter bound to the current tool request
+ */
+export function createProgressReporter(extra?: ToolExtra): ProgressReporter {
+  const progressToken = extra?._meta?.progressToken;
+
+  if (!extra || progressToken === undefined) {
+    return { enabled: false, report: () => {} };
+  }
+
+  // Progress must increase with every notification, even when total is unknown
+  let progress = 0;
+
+  return {
+    enabled: true,
+    report: (message: string, total?: number): void => {
+      progress += 1;
+      extra.sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined ? { total } : {}),
+          message
+        }
+      }).catch(() => {
+        // Client may have disconnected; progress is best-effort
+      });
+    }
+  };
+}
+
+/**
+ * Await upstream work while emitting periodic heartbeat progress
+ */
+export async function withProgress<T>(
+  reporter: ProgressReporter,
+  work: Promise<T>,
+  message: string
+): Promise<T> {
+  if (!reporter.enabled) {
+    return work;
+  }
+
+  const startTime = Date.now();
+  reporter.report(message);
+
+  const heartbeat = setInterval(() => {
+    const elapsed = Math.round((Date.now() - startTime) / 1000);
+    reporter.report(`${message} (${elapsed}s elapsed)`);
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    return await work;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
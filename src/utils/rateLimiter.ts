@@ -0,0 +1,153 @@
+/**
+ * Client-side Rate Limiter
+ *
+ * Per-API-key token bucket (sustained request rate with bursts) combined with
+ * a max-in-flight semaphore. Requests that cannot start immediately wait in a
+ * FIFO queue and are rejected with RateLimitError after the queue timeout, so
+ * parallel agent calls are smoothed out instead of tripping Exa's own limits.
+ */
+
+import { API_CONFIG } from '../tools/config.js';
+
+export interface RateLimitOptions {
+  requestsPerSecond?: number;
+  burst?: number;
+  maxConcurrent?: number;
+  queueTimeoutMs?: number;
+}
+
+export interface RateLimitPermit {
+  waitedMs: number;
+  release: () => void;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (permit: RateLimitPermit) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Raised when a request waited longer than the queue timeout
+ */
+export class RateLimitError extends Error {
+  constructor(
+    public readonly waitedMs: number,
+    public readonly inFlight: number,
+    public readonly maxConcurrent: number
+  ) {
+    super(
+      `Rate limited by this server: request waited ${(waitedMs / 1000).toFixed(1)}s in the queue ` +
+      `(${inFlight}/${maxConcurrent} requests in flight) and was not sent to Exa. ` +
+      `Retry shortly or make fewer parallel calls.`
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+export class KeyRateLimiter {
+  private requestsPerSecond: number = API_CONFIG.RATE_LIMIT_PER_SECOND;
+  private burst: number = API_CONFIG.RATE_LIMIT_BURST;
+  private maxConcurrent: number = API_CONFIG.MAX_CONCURRENT_REQUESTS;
+  private queueTimeoutMs: number = API_CONFIG.QUEUE_TIMEOUT_MS;
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private readonly queue: Waiter[] = [];
+  private refillTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.configure(options);
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Update limits; unset options keep their current values
+   */
+  public configure(options: RateLimitOptions): void {
+    this.requestsPerSecond = Math.max(0.1, options.requestsPerSecond ?? this.requestsPerSecond);
+    this.burst = Math.max(1, options.burst ?? this.burst);
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? this.maxConcurrent);
+    this.queueTimeoutMs = Math.max(0, options.queueTimeoutMs ?? this.queueTimeoutMs);
+    this.tokens = Math.min(this.tokens ?? this.burst, this.burst);
+    this.pump();
+  }
+
+  /**
+   * Wait for a token and a free slot; call release() when the request settles
+   */
+  public acquire(): Promise<RateLimitPermit> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const index = this.queue.indexOf(waiter);
+          if (index >= 0) {
+            this.queue.splice(index, 1);
+            reject(new RateLimitError(Date.now() - waiter.enqueuedAt, this.inFlight, this.maxConcurrent));
+          }
+        }, this.queueTimeoutMs)
+      };
+
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Start queued requests in order while both a token and a slot are available
+   */
+  private pump(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.inFlight < this.maxConcurrent) {
+      if (this.tokens < 1) {
+        this.scheduleRefill();
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      clearTimeout(waiter.timer);
+      this.tokens -= 1;
+      this.inFlight += 1;
+
+      let released = false;
+      waiter.resolve({
+        waitedMs: Date.now() - waiter.enqueuedAt,
+        release: () => {
+          if (released) {
+            return;
+          }
+          released = true;
+          this.inFlight -= 1;
+          this.pump();
+        }
+      });
+    }
+  }
+
+  /**
+   * Wake up when the next token is due
+   */
+  private scheduleRefill(): void {
+    if (this.refillTimer) {
+      return;
+    }
+
+    const waitMs = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = null;
+      this.pump();
+    }, waitMs);
+  }
+}
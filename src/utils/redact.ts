@@ -0,0 +1,128 @@
+/**
+ * Log Redaction
+ *
+ * Everything written by the logger passes through here, so API keys and
+ * credentials never reach stderr, log files or client log notifications.
+ *
+ * - Sensitive fields (API keys, Authorization headers, tokens, plus any
+ *   configured names) are masked wherever they appear in logged objects
+ * - Inline secrets in messages (exaApiKey=..., Bearer ...) are masked
+ * - Query text can be logged as-is, hashed (to correlate repeats without
+ *   storing the text) or omitted entirely
+ */
+
+import { createHash } from 'crypto';
+
+export const QUERY_LOG_MODES = ['plain', 'hash', 'omit'] as const;
+
+export type QueryLogMode = typeof QUERY_LOG_MODES[number];
+
+export interface RedactionOptions {
+  fields?: string[];        // Extra field names to mask, matched case-insensitively
+  queryMode?: QueryLogMode;
+}
+
+// Compared after lowercasing and stripping '-' and '_' (x-api-key -> xapikey)
+const DEFAULT_SENSITIVE_FIELDS = [
+  'apikey', 'exaapikey', 'xapikey', 'authorization', 'proxyauthorization',
+  'cookie', 'setcookie', 'password', 'secret', 'clientsecret', 'token',
+  'accesstoken', 'refreshtoken', 'cacheencryptionkey'
+];
+
+// User-supplied search text in tool arguments
+const QUERY_FIELDS = new Set(['query', 'companyname', 'industry', 'url', 'urls', 'q', 'includetext', 'excludetext', 'subpagetarget']);
+
+const INLINE_SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(exaApiKey|apiKey|api_key|token|access_token)=([^&\s"']+)/gi, '$1=[REDACTED]'],
+  [/\b(x-api-key|authorization)(["']?\s*[:=]\s*["']?)((?:Bearer|Basic)\s+)?([^\s"',}]+)/gi, '$1$2$3[REDACTED]'],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g, '$1 [REDACTED]']
+];
+
+const MAX_DEPTH = 8;
+
+const normalizeField = (name: string): string => name.toLowerCase().replace(/[-_]/g, '');
+
+const parseQueryMode = (value: string | undefined): QueryLogMode | undefined =>
+  QUERY_LOG_MODES.includes(value as QueryLogMode) ? value as QueryLogMode : undefined;
+
+const settings: { sensitiveFields: Set<string>; queryMode: QueryLogMode } = {
+  sensitiveFields: new Set(DEFAULT_SENSITIVE_FIELDS),
+  queryMode: parseQueryMode(process.env.EXA_LOG_QUERIES) ?? 'plain'
+};
+
+/**
+ * Add sensitive field names and set the query mode; unset options keep their current values
+ */
+export function configureRedaction(options: RedactionOptions): void {
+  for (const field of options.fields ?? []) {
+    settings.sensitiveFields.add(normalizeField(field));
+  }
+  settings.queryMode = options.queryMode ?? settings.queryMode;
+}
+
+// Extra field names from the environment, e.g. EXA_LOG_REDACT_FIELDS=sessionId,email
+configureRedaction({ fields: process.env.EXA_LOG_REDACT_FIELDS?.split(',').map(field => field.trim()).filter(Boolean) });
+
+/**
+ * Mask a secret; missing or empty values are kept so a missing key still shows in logs
+ */
+export function maskSecret(value: unknown): unknown {
+  return value === undefined || value === null || value === '' ? value : '[REDACTED]';
+}
+
+/**
+ * Render query text according to the configured mode
+ */
+export function redactQuery(text: string): string {
+  switch (settings.queryMode) {
+    case 'omit':
+      return '[query omitted]';
+    case 'hash':
+      return `[sha256:${createHash('sha256').update(text).digest('hex').slice(0, 12)}]`;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Mask secrets embedded in free text (URLs, header dumps, error messages)
+ */
+export function redactText(text: string): string {
+  return INLINE_SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Deep-copy a value with sensitive fields masked and query fields redacted
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message) };
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const field = normalizeField(key);
+    if (settings.sensitiveFields.has(field)) {
+      result[key] = maskSecret(item);
+    } else if (QUERY_FIELDS.has(field) && settings.queryMode !== 'plain' && (typeof item === 'string' || Array.isArray(item))) {
+      result[key] = Array.isArray(item)
+        ? item.map(entry => redactQuery(String(entry)))
+        : redactQuery(String(item));
+    } else {
+      result[key] = redact(item, depth + 1);
+    }
+  }
+  return result;
+}
@@ -2,7 +2,15 @@
  * MCP Resource Manager
  *
  * Implements MCP Resources pattern for cached search results.
- * Allows Claude to access cached results via resource:// URIs.
+ * Allows Claude to access cached results via exa:// URIs.
+ *
+ * Resource templates:
+ * - exa://search/{cacheId}          Whole cached search
+ * - exa://search/{cacheId}/{index}  Single result from a cached search
+ *
+ * Reads return JSON by default; append ?format=markdown for markdown.
+ * Cache inserts/evictions are forwarded as notifications/resources/list_changed,
+ * and clients may subscribe to individual cache URIs for resources/updated.
  *
  * Benefits:
  * - Native MCP integration
@@ -10,106 +18,117 @@
  * - Automatic listing of available cached searches
  */
 
-import { resultCache, CachedSearchResult } from './resultCache.js';
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { resultCache, CachedSearchResult, CACHE_ID_REGEX, getCacheOwner } from './resultCache.js';
+import { formatResultSelection, formatSingleResult } from './responseFormatter.js';
 
-export interface SearchResource {
-  uri: string;
-  name: string;
-  description: string;
-  mimeType: string;
-}
+type ResourceFormat = 'json' | 'markdown';
 
 /**
- * Generate resource URI for a cached search
+ * Generate resource URI for a cached search or a single result
  */
-export function generateResourceUri(cacheId: string): string {
-  return `exa://search/${cacheId}`;
+export function generateResourceUri(cacheId: string, index?: number): string {
+  return index === undefined ? `exa://search/${cacheId}` : `exa://search/${cacheId}/${index}`;
 }
 
 /**
  * Parse resource URI to extract cache ID
  */
 export function parseCacheIdFromUri(uri: string): string | null {
-  const match = uri.match(/^exa:\/\/search\/(.+)$/);
+  const match = uri.match(/^exa:\/\/search\/([^/?]+)/);
   return match ? match[1] : null;
 }
 
 /**
- * Register MCP resources for cached searches
+ * Read a template variable, dropping any query string the template captured
  */
-export function registerResourceHandlers(server: McpServer): void {
-  // List all available cached searches as resources
-  server.resource({
-    list: async () => {
-      const stats = resultCache.getCacheStats();
+function readVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  const raw = Array.isArray(value) ? value[0] : value;
+  return (raw || '').split('?')[0];
+}
 
-      if (stats.totalCached === 0) {
-        return {
-          resources: []
-        };
-      }
+/**
+ * Resolve requested output format from the ?format= query parameter
+ */
+function readFormat(uri: URL): ResourceFormat {
+  return uri.searchParams.get('format') === 'markdown' ? 'markdown' : 'json';
+}
 
-      // Get all cache files
-      const fs = await import('fs');
-      const files = fs.readdirSync(stats.cacheDir)
-        .filter(f => f.startsWith('exa-') && f.endsWith('.json'));
-
-      const resources: SearchResource[] = [];
-
-      for (const file of files) {
-        try {
-          const filePath = `${stats.cacheDir}/${file}`;
-          const content = fs.readFileSync(filePath, 'utf-8');
-          const cached: CachedSearchResult = JSON.parse(content);
-
-          // Check if expired
-          if (Date.now() - cached.timestamp > cached.ttl) {
-            continue;
-          }
-
-          const age = Math.floor((Date.now() - cached.timestamp) / 1000);
-          const ageStr = age < 60 ? `${age}s ago` : `${Math.floor(age / 60)}m ago`;
-
-          resources.push({
-            uri: generateResourceUri(cached.cacheId),
-            name: `Search: ${cached.query}`,
-            description: `${cached.totalResults} results, cached ${ageStr} (expires in ${Math.floor((cached.ttl - (Date.now() - cached.timestamp)) / 1000)}s)`,
-            mimeType: 'application/json'
-          });
-        } catch (error) {
-          // Skip invalid cache files
-          continue;
-        }
-      }
+/**
+ * Load a live cache entry or throw a descriptive error
+ */
+function loadCache(cacheId: string, owner: string): CachedSearchResult {
+  // Same format the retrieve_result tool accepts; prevents path traversal via URIs
+  if (!CACHE_ID_REGEX.test(cacheId)) {
+    throw new Error(`Invalid cache ID in resource URI: ${cacheId}`);
+  }
 
-      return {
-        resources: resources.map(r => ({
-          uri: r.uri,
-          name: r.name,
-          description: r.description,
-          mimeType: r.mimeType
-        }))
-      };
-    }
-  });
+  const cached = resultCache.getCachedResults(cacheId, owner);
 
-  // Read specific cached search by resource URI
-  server.resource({
-    read: async ({ uri }) => {
-      const cacheId = parseCacheIdFromUri(uri);
+  if (!cached) {
+    throw new Error(`Cache not found or expired: ${cacheId}`);
+  }
 
-      if (!cacheId) {
-        throw new Error(`Invalid resource URI: ${uri}`);
-      }
+  return cached;
+}
 
-      const cached = resultCache.getCachedResults(cacheId);
+/**
+ * Describe a cache entry's age and remaining lifetime
+ */
+function describeCache(cached: CachedSearchResult): string {
+  const age = Math.floor((Date.now() - cached.timestamp) / 1000);
+  const ageStr = age < 60 ? `${age}s ago` : `${Math.floor(age / 60)}m ago`;
+  const remaining = Math.max(0, Math.floor((cached.ttl - (Date.now() - cached.timestamp)) / 1000));
+
+  return `${cached.totalResults} results, cached ${ageStr} (expires in ${remaining}s)`;
+}
 
-      if (!cached) {
-        throw new Error(`Cache not found or expired: ${cacheId}`);
+/**
+ * Register MCP resources for cached searches
+ * Only caches created with this server's API key are listed or readable
+ */
+export function registerResourceHandlers(server: McpServer, config?: { exaApiKey?: string }): void {
+  const owner = getCacheOwner(config);
+  registerResourceNotifications(server, owner);
+
+  // Whole cached search; listing enumerates the tenant's live caches
+  server.resource(
+    "cached-search",
+    new ResourceTemplate("exa://search/{cacheId}", {
+      list: async () => ({
+        resources: resultCache.listCachedSearches(owner).map(cached => ({
+          uri: generateResourceUri(cached.cacheId),
+          name: `Search: ${cached.query}`,
+          description: describeCache(cached),
+          mimeType: 'application/json'
+        }))
+      })
+    }),
+    {
+      description: "Cached Exa search results. Append ?format=markdown for a markdown rendering.",
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const cached = loadCache(readVariable(variables, 'cacheId'), owner);
+
+      if (readFormat(uri) === 'markdown') {
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: 'text/markdown',
+            text: formatResultSelection(
+              cached.results.map((result, index) => ({ index, result })),
+              cached.cacheId,
+              cached.totalResults,
+              'standard'
+            )
+          }]
+        };
       }
 
-      // Return cached results as JSON
       const content = JSON.stringify({
         cacheId: cached.cacheId,
         query: cached.query,
@@ -117,28 +136,117 @@ export function registerResourceHandlers(server: McpServer): void {
         totalResults: cached.totalResults,
         results: cached.results.map((r, i) => ({
           index: i,
-          id: r.id,
-          title: r.title,
-          url: r.url,
-          publishedDate: r.publishedDate,
-          author: r.author,
-          text: r.text,
-          score: r.score,
-          image: r.image,
-          favicon: r.favicon
+          uri: generateResourceUri(cached.cacheId, i),
+          ...r
         })),
         metadata: cached.metadata
       }, null, 2);
 
       return {
         contents: [{
-          uri,
+          uri: uri.href,
           mimeType: 'application/json',
           text: content
         }]
       };
     }
+  );
+
+  // Single result; not listed individually to keep resource lists short
+  server.resource(
+    "cached-search-result",
+    new ResourceTemplate("exa://search/{cacheId}/{index}", { list: undefined }),
+    {
+      description: "A single result from a cached Exa search. Append ?format=markdown for a markdown rendering.",
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const cached = loadCache(readVariable(variables, 'cacheId'), owner);
+      const index = Number(readVariable(variables, 'index'));
+
+      if (!Number.isInteger(index) || index < 0 || index >= cached.totalResults) {
+        throw new Error(`Invalid result index: ${readVariable(variables, 'index')} (valid range: 0-${cached.totalResults - 1})`);
+      }
+
+      const result = cached.results[index];
+
+      if (readFormat(uri) === 'markdown') {
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: 'text/markdown',
+            text: formatSingleResult(result, index, cached.cacheId, cached.totalResults)
+          }]
+        };
+      }
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify({ cacheId: cached.cacheId, query: cached.query, index, ...result }, null, 2)
+        }]
+      };
+    }
+  );
+}
+
+/**
+ * Forward cache events to the client and handle resources/subscribe
+ * Must run before the server connects to a transport (capabilities are fixed then)
+ */
+function registerResourceNotifications(server: McpServer, owner: string): void {
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true }
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const cacheId = parseCacheIdFromUri(request.params.uri);
+    if (!cacheId || !CACHE_ID_REGEX.test(cacheId)) {
+      throw new Error(`Invalid resource URI: ${request.params.uri}`);
+    }
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribe = resultCache.subscribe(event => {
+    // Other tenants' inserts and evictions are invisible to this session
+    if (!server.isConnected() || event.owner !== owner) {
+      return;
+    }
+
+    server.server.sendResourceListChanged().catch(() => {
+      // Client may have disconnected; notifications are best-effort
+    });
+
+    // Notify subscribers of the cache and any of its per-result URIs
+    for (const uri of subscriptions) {
+      if (parseCacheIdFromUri(uri) !== event.cacheId) {
+        continue;
+      }
+      server.server.sendResourceUpdated({ uri }).catch(() => {
+        // Client may have disconnected; notifications are best-effort
+      });
+      if (event.type === 'evicted') {
+        subscriptions.delete(uri);
+      }
+    }
   });
+
+  // Detach from the process-wide cache when this session closes
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    subscriptions.clear();
+    previousOnClose?.();
+  };
 }
 
 /**
@@ -160,8 +268,9 @@ Access: Use MCP resource protocol to read full results
 Example (in Claude):
 \`\`\`
 Read resource: ${uri}
+Read resource: ${generateResourceUri(cacheId, 0)}?format=markdown
 \`\`\`
 
-Or use the get_search_result tool with cache_id: ${cacheId}
+Or use the retrieve_result tool with cache_id: ${cacheId}
 `;
 }
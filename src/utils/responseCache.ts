@@ -0,0 +1,160 @@
+/**
+ * Upstream Response Cache
+ *
+ * Request-fingerprint cache in front of the Exa client for /search, /contents
+ * and /findSimilar. Identical requests within the TTL are served from memory
+ * instead of paying for another API call, and reuse the same result cache ID.
+ *
+ * Requests with livecrawl: 'always' bypass the cache because the caller has
+ * explicitly asked for fresh content.
+ *
+ * The cache is shared by every session in the process, so its TTL comes from
+ * EXA_RESPONSE_CACHE_TTL_SECONDS (0 disables it) rather than client config.
+ */
+
+import { createHash } from 'crypto';
+import { AxiosInstance } from 'axios';
+import { API_CONFIG } from '../tools/config.js';
+import { getQueueDelay } from './axiosClient.js';
+
+export interface UpstreamInfo {
+  cacheHit: boolean;
+  ageMs: number;
+  queuedMs: number; // Time held back by the client-side rate limiter
+  resultCacheId?: string;
+  /** Record the result cache ID minted for this response so later hits reuse it */
+  remember: (resultCacheId: string) => void;
+}
+
+export interface CachedPostResponse<T> {
+  data: T;
+  upstream: UpstreamInfo;
+}
+
+interface ResponseCacheEntry {
+  data: unknown;
+  storedAt: number;
+  resultCacheId?: string;
+}
+
+const CACHEABLE_ENDPOINTS: string[] = [
+  API_CONFIG.ENDPOINTS.SEARCH,
+  API_CONFIG.ENDPOINTS.CONTENTS,
+  API_CONFIG.ENDPOINTS.FIND_SIMILAR
+];
+
+const MAX_ENTRIES = 200;
+
+const entries = new Map<string, ResponseCacheEntry>();
+
+const parseTtlMs = (value: string | undefined): number | undefined =>
+  value && Number.isFinite(Number(value)) ? Math.max(0, Number(value)) * 1000 : undefined;
+
+const ttlMs: number = parseTtlMs(process.env.EXA_RESPONSE_CACHE_TTL_SECONDS) ?? API_CONFIG.RESPONSE_CACHE_TTL_MS;
+
+/**
+ * JSON with sorted keys so equivalent requests hash identically
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value as Record<string, unknown>).sort();
+    return `{${keys
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fingerprint a request; the API key and cache owner are part of the key so
+ * neither accounts nor access tokens sharing the operator's key share entries
+ */
+function fingerprint(axiosInstance: AxiosInstance, endpoint: string, body: unknown, owner: string): string {
+  const apiKey = String(axiosInstance.defaults.headers['x-api-key'] || '');
+  return createHash('sha256')
+    .update(apiKey)
+    .update('\n')
+    .update(owner)
+    .update('\n')
+    .update(endpoint)
+    .update('\n')
+    .update(stableStringify(body))
+    .digest('hex');
+}
+
+/**
+ * Check whether the request explicitly asks for live content
+ */
+function wantsLiveCrawl(body: unknown): boolean {
+  const request = body as { livecrawl?: string; contents?: { livecrawl?: string } } | undefined;
+  return request?.livecrawl === 'always' || request?.contents?.livecrawl === 'always';
+}
+
+/**
+ * POST through the response cache; entries are only shared within one cache owner (see getCacheOwner)
+ * Non-cacheable endpoints and live-crawl requests always go upstream
+ */
+export async function cachedPost<T>(
+  axiosInstance: AxiosInstance,
+  endpoint: string,
+  body: unknown,
+  owner: string
+): Promise<CachedPostResponse<T>> {
+  const cacheable = ttlMs > 0 && CACHEABLE_ENDPOINTS.includes(endpoint) && !wantsLiveCrawl(body);
+  const key = cacheable ? fingerprint(axiosInstance, endpoint, body, owner) : '';
+
+  if (cacheable) {
+    const entry = entries.get(key);
+    if (entry && Date.now() - entry.storedAt <= ttlMs) {
+      // Refresh LRU position
+      entries.delete(key);
+      entries.set(key, entry);
+      return {
+        data: entry.data as T,
+        upstream: {
+          cacheHit: true,
+          ageMs: Date.now() - entry.storedAt,
+          queuedMs: 0,
+          resultCacheId: entry.resultCacheId,
+          remember: (resultCacheId) => { entry.resultCacheId = resultCacheId; }
+        }
+      };
+    }
+    entries.delete(key);
+  }
+
+  const response = await axiosInstance.post<T>(endpoint, body);
+
+  if (!cacheable) {
+    return {
+      data: response.data,
+      upstream: { cacheHit: false, ageMs: 0, queuedMs: getQueueDelay(response), remember: () => {} }
+    };
+  }
+
+  const entry: ResponseCacheEntry = { data: response.data, storedAt: Date.now() };
+  entries.set(key, entry);
+
+  // Evict least recently used entries
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    entries.delete(oldest);
+  }
+
+  return {
+    data: response.data,
+    upstream: {
+      cacheHit: false,
+      ageMs: 0,
+      queuedMs: getQueueDelay(response),
+      remember: (resultCacheId) => { entry.resultCacheId = resultCacheId; }
+    }
+  };
+}
@@ -8,13 +8,40 @@
  * - Progressive Disclosure
  */
 
-import { ExaSearchResult, ExaSearchResponse } from '../types.js';
-import { estimateTokens, formatMetadataForClaude, createResponseMetadata, calculateMaxCharacters } from './tokenEstimator.js';
+import { ExaSearchResult, ExaSearchResponse, AnswerResponse, AnswerCitation } from '../types.js';
+import { estimateTokens, formatMetadataForClaude, createResponseMetadata, calculateMaxCharacters, tokensToCharacters } from './tokenEstimator.js';
+import { API_CONFIG } from '../tools/config.js';
 import { resultCache } from './resultCache.js';
+import { DateRange, formatDateRange } from './dateRange.js';
+import { UpstreamInfo } from './responseCache.js';
+import { formatDuration } from './cacheTtl.js';
+import { CircuitOpenError } from './circuitBreaker.js';
+import { ErrorCode, classifyError, ERROR_REMEDIATION } from './errors.js';
 
 export type ContentLevel = 'summary' | 'standard' | 'full';
 export type OutputFormat = 'markdown' | 'json';
 
+export interface UrlStatus {
+  url: string;
+  status: 'success' | 'error';
+  error?: string;
+  resultIndex?: number;
+}
+
+export interface ChunkOptions {
+  offset: number;     // Character offset into result text
+  chunkSize: number;  // Characters per chunk
+}
+
+export interface FormatOptions {
+  tool: string;  // Tool name, stored with cached results for stale fallbacks
+  owner: string; // Cache owner from getCacheOwner(); results are only retrievable by this tenant
+  ttl?: number;  // Cache TTL in milliseconds from resolveCacheTtl()
+  dateRange?: DateRange;
+  urlStatuses?: UrlStatus[];
+  upstream?: UpstreamInfo;
+}
+
 export interface FormattedResponse {
   text: string;
   metadata: {
@@ -28,28 +55,70 @@ export interface FormattedResponse {
 export interface JSONSearchResponse {
   metadata: {
     cacheId?: string;
+    cacheExpiresAt?: string;
+    cacheMaxEntries?: number; // Per-tenant entry limit; older entries are evicted before cacheExpiresAt
     totalResults: number;
     returnedResults: number;
     contentLevel: ContentLevel;
     tokenEstimate: number;
     requestId?: string;
     searchType?: string;
+    dateRange?: DateRange;
+    urlStatuses?: UrlStatus[];
+    responseCache?: { hit: boolean; ageSeconds: number };
+    rateLimitDelayMs?: number;
+    stale?: { cachedAt: string; retryAfterMs: number };
   };
   results: ExaSearchResult[];
 }
 
+export interface JSONAnswerResponse {
+  metadata: {
+    cacheId?: string;
+    cacheExpiresAt?: string;
+    cacheMaxEntries?: number;
+    totalSources: number;
+    tokenEstimate: number;
+    requestId?: string;
+    rateLimitDelayMs?: number;
+  };
+  answer: string;
+  citations: Array<AnswerCitation & { sourceIndex: number }>;
+  sources: Array<{ index: number; url: string; title: string }>;
+}
+
+export interface JSONErrorResponse {
+  error: {
+    code: ErrorCode;
+    message: string;
+    retryable: boolean;
+    retryAfterMs: number | null;
+    status?: number;
+    query?: string;
+    remediation: string[];
+  };
+}
+
 /**
  * Create compact summary of a single result
  * Target: ~100-150 tokens per result
  */
 function createResultSummary(result: ExaSearchResult, index: number): string {
-  const preview = result.text ? result.text.substring(0, 200).trim() + '...' : 'No preview available';
+  // Prefer Exa's summary or highlights over the raw text prefix (often nav/cookie text)
+  let preview: string;
+  if (result.summary) {
+    preview = `Summary: ${result.summary.trim()}`;
+  } else if (result.highlights && result.highlights.length > 0) {
+    preview = `Highlights: ${result.highlights.map(h => h.trim()).join(' … ')}`;
+  } else {
+    preview = `Preview: ${result.text ? result.text.substring(0, 200).trim() + '...' : 'No preview available'}`;
+  }
 
   const lines = [
     `[${index}] ${result.title}`,
     `URL: ${result.url}`,
     `Published: ${result.publishedDate || 'Unknown'}`,
-    `Preview: ${preview}`,
+    preview,
     `Score: ${result.score?.toFixed(2) || 'N/A'}`,
     ''
   ];
@@ -57,6 +126,28 @@ function createResultSummary(result: ExaSearchResult, index: number): string {
   return lines.join('\n');
 }
 
+/**
+ * Render Exa summary and highlights as markdown lines
+ */
+function createExtractedLines(result: ExaSearchResult): string[] {
+  const lines: string[] = [];
+
+  if (result.summary) {
+    lines.push(`**Summary**: ${result.summary.trim()}`);
+    lines.push('');
+  }
+
+  if (result.highlights && result.highlights.length > 0) {
+    lines.push(`**Highlights**:`);
+    for (const highlight of result.highlights) {
+      lines.push(`- ${highlight.trim()}`);
+    }
+    lines.push('');
+  }
+
+  return lines;
+}
+
 /**
  * Create standard result (moderate detail)
  * Target: ~400-600 tokens per result
@@ -74,6 +165,7 @@ function createResultStandard(result: ExaSearchResult, index: number, maxChars:
     `**Author**: ${result.author || 'Unknown'}`,
     `**Score**: ${result.score?.toFixed(2) || 'N/A'}`,
     '',
+    ...createExtractedLines(result),
     `**Content**:`,
     contentPreview,
     ''
@@ -106,6 +198,7 @@ function createResultFull(result: ExaSearchResult, index: number): string {
   }
 
   lines.push('');
+  lines.push(...createExtractedLines(result));
   lines.push('**Full Content**:');
   lines.push('');
   lines.push(result.text || 'No content available');
@@ -115,25 +208,79 @@ function createResultFull(result: ExaSearchResult, index: number): string {
 }
 
 /**
- * Format search response as JSON for code execution environments
+ * Render per-URL fetch outcomes for batch content extraction
  */
-export function formatSearchResponseJSON(
+export function formatUrlStatuses(statuses: UrlStatus[]): string {
+  const succeeded = statuses.filter(st => st.status === 'success').length;
+  const lines = [
+    `**URL Status**: ${succeeded}/${statuses.length} fetched`,
+  ];
+
+  for (const status of statuses) {
+    if (status.status === 'success') {
+      lines.push(`- [${status.resultIndex}] ${status.url}`);
+    } else {
+      lines.push(`- FAILED ${status.url}: ${status.error || 'Unknown error'}`);
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Expiry line for cached results; the per-tenant entry limit can evict them sooner
+ */
+function formatCacheExpiry(remainingMs: number): string {
+  return `- Cache expires in ${formatDuration(remainingMs)} (only your ${resultCache.getMaxEntriesPerOwner()} most recent searches are kept)`;
+}
+
+/**
+ * Cache results for progressive disclosure
+ * Responses served from the upstream response cache reuse their existing cache ID
+ * while it is live and was cached with the same TTL
+ */
+function cacheForDisclosure(
   response: ExaSearchResponse,
   query: string,
-  contentLevel: ContentLevel = 'standard'
-): JSONSearchResponse {
-  const results = response.results || [];
+  options: FormatOptions
+): { cacheId: string; expiresAt: number } {
+  const { tool, owner, ttl = API_CONFIG.CACHE_TTL_MS, upstream } = options;
+  const existing = upstream?.resultCacheId ? resultCache.getCachedResults(upstream.resultCacheId, owner) : null;
+
+  if (existing && existing.ttl === ttl && existing.metadata.tool === tool) {
+    return { cacheId: existing.cacheId, expiresAt: existing.timestamp + existing.ttl };
+  }
 
-  // Always cache results for progressive disclosure
   const cacheId = resultCache.cacheResults(
     query,
-    results,
+    response.results || [],
     {
       requestId: response.requestId,
+      tool,
       searchType: response.resolvedSearchType || response.searchType,
       autopromptString: response.autopromptString
-    }
+    },
+    owner,
+    ttl
   );
+  upstream?.remember(cacheId);
+  return { cacheId, expiresAt: Date.now() + ttl };
+}
+
+/**
+ * Format search response as JSON for code execution environments
+ */
+export function formatSearchResponseJSON(
+  response: ExaSearchResponse,
+  query: string,
+  contentLevel: ContentLevel = 'standard',
+  options: FormatOptions
+): JSONSearchResponse {
+  const results = response.results || [];
+
+  // Always cache results for progressive disclosure
+  const { cacheId, expiresAt } = cacheForDisclosure(response, query, options);
 
   // Estimate tokens for JSON output
   const jsonString = JSON.stringify({ results }, null, 2);
@@ -142,12 +289,23 @@ export function formatSearchResponseJSON(
   return {
     metadata: {
       cacheId,
+      cacheExpiresAt: new Date(expiresAt).toISOString(),
+      cacheMaxEntries: resultCache.getMaxEntriesPerOwner(),
       totalResults: results.length,
       returnedResults: results.length,
       contentLevel,
       tokenEstimate,
       requestId: response.requestId,
-      searchType: response.resolvedSearchType || response.searchType
+      searchType: response.resolvedSearchType || response.searchType,
+      ...(formatDateRange(options.dateRange) ? { dateRange: options.dateRange } : {}),
+      ...(options.urlStatuses ? { urlStatuses: options.urlStatuses } : {}),
+      ...(options.upstream ? {
+        responseCache: {
+          hit: options.upstream.cacheHit,
+          ageSeconds: Math.round(options.upstream.ageMs / 1000)
+        }
+      } : {}),
+      ...(options.upstream?.queuedMs ? { rateLimitDelayMs: options.upstream.queuedMs } : {})
     },
     results
   };
@@ -160,13 +318,17 @@ export function formatSearchResponse(
   response: ExaSearchResponse,
   query: string,
   contentLevel: ContentLevel = 'standard',
-  maxTotalTokens: number = 20000
+  maxTotalTokens: number = 20000,
+  options: FormatOptions
 ): FormattedResponse {
   const results = response.results || [];
 
   if (results.length === 0) {
+    const dateWindow = formatDateRange(options.dateRange);
     return {
-      text: 'No results found for your query.',
+      text: dateWindow
+        ? `No results found for your query within the date window (${dateWindow}).`
+        : 'No results found for your query.',
       metadata: {
         totalTokens: 10,
         resultCount: 0,
@@ -176,18 +338,9 @@ export function formatSearchResponse(
   }
 
   let formattedText = '';
-  let cacheId: string | undefined;
 
   // Always cache results for progressive disclosure
-  cacheId = resultCache.cacheResults(
-    query,
-    results,
-    {
-      requestId: response.requestId,
-      searchType: response.resolvedSearchType || response.searchType,
-      autopromptString: response.autopromptString
-    }
-  );
+  const { cacheId, expiresAt } = cacheForDisclosure(response, query, options);
 
   // Format based on content level
   if (contentLevel === 'summary') {
@@ -214,6 +367,13 @@ export function formatSearchResponse(
     results.length,
     contentLevel
   );
+  metadata.dateWindow = formatDateRange(options.dateRange);
+  if (options.upstream?.cacheHit) {
+    metadata.responseCacheAgeMs = options.upstream.ageMs;
+  }
+  if (options.upstream?.queuedMs) {
+    metadata.rateLimitDelayMs = options.upstream.queuedMs;
+  }
 
   const metadataHeader = formatMetadataForClaude(metadata);
 
@@ -223,7 +383,7 @@ export function formatSearchResponse(
     '',
     `**Progressive Disclosure**`,
     `- Use cache ID + result index [0-${results.length - 1}] with retrieve_result tool`,
-    `- Cache expires in 5 minutes`,
+    formatCacheExpiry(expiresAt - Date.now()),
     `- Current response: ~${metadata.tokenEstimate.estimatedTokens.toLocaleString()} tokens`,
     '',
     `---`,
@@ -232,6 +392,7 @@ export function formatSearchResponse(
 
   const fullText = [
     metadataHeader,
+    ...(options.urlStatuses ? [formatUrlStatuses(options.urlStatuses)] : []),
     cacheInstructions.join('\n'),
     formattedText
   ].join('\n');
@@ -251,50 +412,367 @@ export function formatSearchResponse(
 
 /**
  * Format a single result retrieved from cache
+ * Long documents are paged so one retrieval stays within the token budget
  */
 export function formatSingleResult(
   result: ExaSearchResult,
   index: number,
   cacheId: string,
-  totalResults: number
+  totalResults: number,
+  chunk?: Partial<ChunkOptions>
 ): string {
-  const fullResult = createResultFull(result, index);
+  const text = result.text || '';
+  const offset = chunk?.offset ?? 0;
+  const chunkSize = chunk?.chunkSize ?? tokensToCharacters(API_CONFIG.RETRIEVE_CHUNK_TOKENS);
 
   const header = [
     `## Retrieved from Cache`,
     '',
     `**Cache ID**: \`${cacheId}\``,
     `**Result**: ${index + 1} of ${totalResults}`,
+  ];
+
+  // Whole document fits: no paging metadata needed
+  if (offset === 0 && text.length <= chunkSize) {
+    header.push('', `---`, '');
+    return header.join('\n') + createResultFull(result, index);
+  }
+
+  const end = Math.min(text.length, offset + chunkSize);
+  const totalChunks = Math.max(1, Math.ceil(text.length / chunkSize));
+  const chunkNumber = Math.min(totalChunks, Math.floor(offset / chunkSize) + 1);
+  const chunkText = text.slice(offset, end);
+
+  header.push(`**Chunk**: ${chunkNumber} of ${totalChunks} (characters ${offset.toLocaleString()}-${end.toLocaleString()} of ${text.length.toLocaleString()}, ~${estimateTokens(chunkText).estimatedTokens.toLocaleString()} tokens)`);
+
+  if (end < text.length) {
+    header.push(`**Continue**: call retrieve_result with cache_id \`${cacheId}\`, result_index ${index}, offset ${end}, chunk_size ${chunkSize}, unit 'characters'`);
+  } else {
+    header.push(`**Continue**: end of document`);
+  }
+
+  header.push('', `---`, '');
+
+  return header.join('\n') + createResultFull({ ...result, text: chunkText }, index);
+}
+
+/**
+ * Format several cached results at one content level within a token budget
+ * Stops before the result that would overflow and lists what remains
+ */
+export function formatResultSelection(
+  selection: Array<{ index: number; result: ExaSearchResult }>,
+  cacheId: string,
+  totalResults: number,
+  contentLevel: ContentLevel = 'standard',
+  maxTotalTokens: number = API_CONFIG.MAX_SAFE_TOTAL_TOKENS
+): string {
+  const headerOverhead = 300;
+  const standardChars = calculateMaxCharacters(selection.length, maxTotalTokens);
+  const blocks: string[] = [];
+  let usedTokens = headerOverhead;
+  let returned = 0;
+
+  for (const { index, result } of selection) {
+    let block = contentLevel === 'summary'
+      ? createResultSummary(result, index)
+      : contentLevel === 'standard'
+        ? createResultStandard(result, index, standardChars)
+        : createResultFull(result, index);
+
+    let blockTokens = estimateTokens(block).estimatedTokens;
+
+    if (usedTokens + blockTokens > maxTotalTokens) {
+      if (returned > 0) {
+        break;
+      }
+      // A single oversized result is shortened rather than dropped
+      const remainingChars = tokensToCharacters(maxTotalTokens - usedTokens - 200);
+      block = createResultStandard(result, index, Math.max(500, remainingChars));
+      blockTokens = estimateTokens(block).estimatedTokens;
+    }
+
+    blocks.push(block);
+    usedTokens += blockTokens;
+    returned += 1;
+  }
+
+  const remaining = selection.slice(returned).map(item => item.index);
+
+  const header = [
+    `## Retrieved from Cache`,
     '',
-    `---`,
+    `**Cache ID**: \`${cacheId}\``,
+    `**Results**: ${returned} of ${selection.length} requested (${totalResults} in cache)`,
+    `**Content Level**: ${contentLevel.toUpperCase()}`,
+    `**Token Estimate**: ~${usedTokens.toLocaleString()} tokens`,
+  ];
+
+  if (remaining.length > 0) {
+    header.push(`**Remaining indices**: [${remaining.join(', ')}] (token budget reached; request them in a follow-up call)`);
+  }
+
+  header.push('', `---`, '');
+
+  return header.join('\n') + blocks.join('\n');
+}
+
+/**
+ * Insert numbered citation markers into answer text
+ * Markers are zero-based source indices so they map directly to retrieve_result
+ */
+function applyCitationMarkers(
+  answer: string,
+  citations: AnswerCitation[]
+): { text: string; sources: ExaSearchResult[]; sourceIndexes: number[] } {
+  const sources: ExaSearchResult[] = [];
+  const indexByUrl = new Map<string, number>();
+
+  // Deduplicate sources by URL so repeated citations share a number
+  const sourceIndexes = citations.map(citation => {
+    const existing = indexByUrl.get(citation.url);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const index = sources.length;
+    indexByUrl.set(citation.url, index);
+    sources.push({
+      id: citation.url,
+      title: citation.text ? citation.text.substring(0, 120).trim() : citation.url,
+      url: citation.url,
+      publishedDate: '',
+      author: '',
+      text: citation.text || ''
+    });
+    return index;
+  });
+
+  // Group markers by offset; citations ending at the same offset share one group
+  const markersByPosition = new Map<number, number[]>();
+  citations.forEach((citation, i) => {
+    const position = citation.endIndex;
+    if (!Number.isInteger(position) || position < 0 || position > answer.length) {
+      return;
+    }
+    const group = markersByPosition.get(position) || [];
+    if (!group.includes(sourceIndexes[i])) {
+      group.push(sourceIndexes[i]);
+    }
+    markersByPosition.set(position, group);
+  });
+
+  // Insert from the end of the answer so earlier offsets stay valid
+  let text = answer;
+  const positions = Array.from(markersByPosition.keys()).sort((a, b) => b - a);
+  for (const position of positions) {
+    const markers = markersByPosition.get(position)!.map(index => `[${index}]`).join('');
+    text = text.slice(0, position) + markers + text.slice(position);
+  }
+
+  return { text, sources, sourceIndexes };
+}
+
+/**
+ * Format answer response with inline citations (Markdown)
+ * Cited sources are cached for expansion via retrieve_result
+ */
+export function formatAnswerResponse(
+  response: AnswerResponse,
+  query: string,
+  owner: string,
+  ttl: number = API_CONFIG.CACHE_TTL_MS,
+  queuedMs: number = 0
+): FormattedResponse {
+  const citations = response.citations || [];
+  const { text, sources } = applyCitationMarkers(response.answer || '', citations);
+
+  let cacheId: string | undefined;
+  if (sources.length > 0) {
+    cacheId = resultCache.cacheResults(query, sources, { requestId: response.requestId, tool: 'answer' }, owner, ttl);
+  }
+
+  const lines = [
+    `## Answer`,
+    '',
+    text || 'No answer available',
     ''
-  ].join('\n');
+  ];
+
+  if (sources.length > 0) {
+    lines.push(`## Sources`);
+    lines.push('');
+    sources.forEach((source, i) => {
+      lines.push(`[${i}] ${source.url}`);
+    });
+    lines.push('');
+    lines.push(`**Cache ID**: \`${cacheId}\``);
+    lines.push(`- Use cache ID + source index [0-${sources.length - 1}] with retrieve_result tool`);
+    lines.push(formatCacheExpiry(ttl));
+  }
+
+  if (queuedMs) {
+    lines.push('');
+    lines.push(`- Rate Limit: delayed ${(queuedMs / 1000).toFixed(1)}s by client-side rate limiting`);
+  }
+
+  const fullText = lines.join('\n');
+  const finalTokens = estimateTokens(fullText).estimatedTokens;
+
+  return {
+    text: fullText,
+    metadata: {
+      cacheId,
+      totalTokens: finalTokens,
+      resultCount: sources.length,
+      contentLevel: 'standard'
+    }
+  };
+}
+
+/**
+ * Format answer response as JSON for code execution environments
+ */
+export function formatAnswerResponseJSON(
+  response: AnswerResponse,
+  query: string,
+  owner: string,
+  ttl: number = API_CONFIG.CACHE_TTL_MS,
+  queuedMs: number = 0
+): JSONAnswerResponse {
+  const citations = response.citations || [];
+  const { text, sources, sourceIndexes } = applyCitationMarkers(response.answer || '', citations);
+
+  let cacheId: string | undefined;
+  if (sources.length > 0) {
+    cacheId = resultCache.cacheResults(query, sources, { requestId: response.requestId, tool: 'answer' }, owner, ttl);
+  }
+
+  const body = {
+    answer: text,
+    citations: citations.map((citation, i) => ({ ...citation, sourceIndex: sourceIndexes[i] })),
+    sources: sources.map((source, i) => ({ index: i, url: source.url, title: source.title }))
+  };
+
+  return {
+    metadata: {
+      cacheId,
+      ...(cacheId ? { cacheExpiresAt: new Date(Date.now() + ttl).toISOString(), cacheMaxEntries: resultCache.getMaxEntriesPerOwner() } : {}),
+      totalSources: sources.length,
+      tokenEstimate: estimateTokens(JSON.stringify(body, null, 2)).estimatedTokens,
+      requestId: response.requestId,
+      ...(queuedMs ? { rateLimitDelayMs: queuedMs } : {})
+    },
+    ...body
+  };
+}
+
+/**
+ * Serve recent cached results when Exa is unreachable (circuit open)
+ * Returns null when the error is not a circuit trip or nothing matching is cached
+ */
+export function formatDegradedResponse(
+  error: unknown,
+  owner: string,
+  tool: string,
+  query: string,
+  outputFormat: OutputFormat = 'markdown'
+): string | null {
+  if (!(error instanceof CircuitOpenError)) {
+    return null;
+  }
+
+  const cached = resultCache.findRecentByQuery(owner, tool, query);
+  if (!cached) {
+    return null;
+  }
+
+  const ageMs = Date.now() - cached.timestamp;
+
+  if (outputFormat === 'json') {
+    const response: JSONSearchResponse = {
+      metadata: {
+        cacheId: cached.cacheId,
+        cacheExpiresAt: new Date(cached.timestamp + cached.ttl).toISOString(),
+        cacheMaxEntries: resultCache.getMaxEntriesPerOwner(),
+        totalResults: cached.totalResults,
+        returnedResults: cached.totalResults,
+        contentLevel: 'summary',
+        tokenEstimate: estimateTokens(JSON.stringify(cached.results)).estimatedTokens,
+        requestId: cached.metadata.requestId,
+        searchType: cached.metadata.searchType,
+        stale: {
+          cachedAt: new Date(cached.timestamp).toISOString(),
+          retryAfterMs: error.retryAfterMs
+        }
+      },
+      results: cached.results
+    };
+    return JSON.stringify(response, null, 2);
+  }
+
+  const lines = [
+    `## Stale Results (Exa API unavailable)`,
+    '',
+    `**Warning**: ${error.message}. These results were cached ${formatDuration(ageMs)} ago for the same query and may be out of date.`,
+    '',
+    `**Cache ID**: \`${cached.cacheId}\``,
+    `- Use cache ID + result index [0-${cached.totalResults - 1}] with retrieve_result tool`,
+    formatCacheExpiry(cached.timestamp + cached.ttl - Date.now()),
+    '',
+    `---`,
+    '',
+    ...cached.results.map((r, i) => createResultSummary(r, i))
+  ];
 
-  return header + fullResult;
+  return lines.join('\n');
 }
 
 /**
- * Format error message with token-awareness
+ * Format a classified error with remediation for its type
+ * JSON output carries code/retryable/retryAfterMs for programmatic handling
  */
-export function formatErrorResponse(error: Error | string, query?: string): string {
-  const errorMessage = error instanceof Error ? error.message : error;
+export function formatErrorResponse(error: unknown, query?: string, outputFormat: OutputFormat = 'markdown'): string {
+  const classified = classifyError(error);
+  const remediation = [...(classified.remediation ?? []), ...ERROR_REMEDIATION[classified.code]];
+
+  if (outputFormat === 'json') {
+    const response: JSONErrorResponse = {
+      error: {
+        code: classified.code,
+        message: classified.message,
+        retryable: classified.retryable,
+        retryAfterMs: classified.retryAfterMs,
+        ...(classified.status !== undefined ? { status: classified.status } : {}),
+        ...(query ? { query } : {}),
+        remediation
+      }
+    };
+    return JSON.stringify(response, null, 2);
+  }
 
   const lines = [
-    `## Search Error`,
+    `## Error`,
     '',
-    `**Error**: ${errorMessage}`,
+    `**Error**: ${classified.message}`,
+    `**Type**: ${classified.code}${classified.status !== undefined ? ` (HTTP ${classified.status})` : ''}`,
   ];
 
+  if (classified.retryable) {
+    lines.push(classified.retryAfterMs !== null
+      ? `**Retryable**: yes, after ${formatDuration(classified.retryAfterMs)}`
+      : `**Retryable**: yes`);
+  } else {
+    lines.push(`**Retryable**: no`);
+  }
+
   if (query) {
     lines.push(`**Query**: "${query}"`);
   }
 
   lines.push('');
   lines.push('**Suggestions**:');
-  lines.push('- Check your API key is valid');
-  lines.push('- Verify the query format');
-  lines.push('- Try reducing num_results or max_chars_per_result');
-  lines.push('- Check Exa API status: https://status.exa.ai');
+  lines.push(...remediation.map(line => `- ${line}`));
 
   return lines.join('\n');
 }
@@ -8,15 +8,25 @@
  * 1. Store full results in cache
  * 2. Return summary to Claude with cache ID
  * 3. Claude can request specific results by cache ID + index
+ *
+ * Entries belong to the API key that created them; reads from any other key
+ * behave exactly like a missing cache so IDs cannot be probed across tenants.
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
+import { EventEmitter } from 'events';
+import { createHash, randomBytes } from 'crypto';
 import { ExaSearchResult } from '../types.js';
+import { CacheStorage, CacheStorageOptions, CacheRecordMeta, createCacheStorage } from './cacheStorage.js';
+import { PayloadCipher, createPayloadCipher } from './cacheCrypto.js';
+import { log } from './logger.js';
+import { API_CONFIG } from '../tools/config.js';
+
+// 128-bit random IDs; also keeps IDs safe to use as file names and URI segments
+export const CACHE_ID_REGEX = /^exa-[a-f0-9]{32}$/;
 
 export interface CachedSearchResult {
   cacheId: string;
+  owner: string; // Hashed API key of the tenant that created the entry
   query: string;
   timestamp: number;
   ttl: number; // Time to live in milliseconds
@@ -24,28 +34,58 @@ export interface CachedSearchResult {
   results: ExaSearchResult[];
   metadata: {
     requestId: string;
+    tool?: string; // Tool that produced the entry; stale fallbacks only reuse the same tool's results
     searchType?: string;
     autopromptString?: string;
   };
 }
 
+export interface ResultCacheOptions extends CacheStorageOptions {
+  /** Secret for AES-256-GCM encryption of cached payloads; plaintext when unset */
+  encryptionKey?: string;
+  /** Entries kept per tenant; the oldest are evicted first, even before their TTL */
+  maxEntriesPerOwner?: number;
+}
+
+export const DEFAULT_MAX_ENTRIES_PER_OWNER = 100;
+
+export type CacheEvictionReason = 'expired' | 'capacity' | 'invalid' | 'deleted';
+
+export type CacheEvent =
+  | { type: 'inserted'; cacheId: string; owner: string }
+  | { type: 'evicted'; cacheId: string; owner?: string; reason: CacheEvictionReason }; // owner unset for entries that predate it
+
 class ResultCacheManager {
-  private cacheDir: string;
-  private readonly DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
-  private readonly MAX_CACHE_SIZE = 100; // Maximum number of cached searches
+  private readonly storage: CacheStorage;
+  private readonly cipher: PayloadCipher | null;
+  private readonly events = new EventEmitter();
+  private readonly DEFAULT_TTL = API_CONFIG.CACHE_TTL_MS; // Per-call TTLs come from resolveCacheTtl()
+  private maxEntriesPerOwner = DEFAULT_MAX_ENTRIES_PER_OWNER;
+  private readonly MAX_TOTAL_ENTRIES = 10000; // Process-wide safety net across all tenants
   private readonly CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor() {
-    // Use system temp directory for cache
-    this.cacheDir = path.join(os.tmpdir(), 'exa-mcp-cache');
-    this.ensureCacheDir();
+  constructor(options: ResultCacheOptions = {}) {
+    this.storage = createCacheStorage(options);
+    // Payloads written under another key read as misses
+    this.cipher = options.encryptionKey ? createPayloadCipher(options.encryptionKey) : null;
+    this.maxEntriesPerOwner = Math.max(1, options.maxEntriesPerOwner ?? this.maxEntriesPerOwner);
     this.cleanupOldCaches();
 
+    // One listener per connected MCP session; no fixed upper bound
+    this.events.setMaxListeners(0);
+
     // Start periodic cleanup to prevent resource leaks
     this.startPeriodicCleanup();
   }
 
+  /**
+   * Metadata bound to an encrypted payload, so a swapped timestamp/TTL fails authentication
+   */
+  private associatedData(meta: CacheRecordMeta): string {
+    return `${meta.cacheId}:${meta.timestamp}:${meta.ttl}`;
+  }
+
   /**
    * Start periodic cleanup of expired caches
    */
@@ -58,10 +98,8 @@ class ResultCacheManager {
       try {
         this.cleanupOldCaches();
       } catch (error) {
-        // Silently handle cleanup errors to prevent interval disruption
-        // Note: Using console.error here is acceptable for background cleanup
-        // eslint-disable-next-line no-console
-        console.error('[ResultCache] Cleanup error:', error);
+        // Handle cleanup errors to prevent interval disruption
+        log(`[ResultCache] Cleanup error: ${error instanceof Error ? error.message : String(error)}`, 'error');
       }
     }, this.CLEANUP_INTERVAL);
 
@@ -80,29 +118,36 @@ class ResultCacheManager {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
+    this.storage.close();
   }
 
   /**
-   * Ensure cache directory exists
+   * Listen for cache inserts and evictions
+   * Returns a function that removes the listener
    */
-  private ensureCacheDir(): void {
-    if (!fs.existsSync(this.cacheDir)) {
-      fs.mkdirSync(this.cacheDir, { recursive: true });
-    }
+  public subscribe(listener: (event: CacheEvent) => void): () => void {
+    this.events.on('change', listener);
+    return () => {
+      this.events.off('change', listener);
+    };
   }
 
   /**
-   * Generate unique cache ID
+   * Notify listeners without letting a failing listener break cache writes
    */
-  private generateCacheId(): string {
-    return `exa-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  private emit(event: CacheEvent): void {
+    try {
+      this.events.emit('change', event);
+    } catch (error) {
+      log(`[ResultCache] Listener error: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
   }
 
   /**
-   * Get cache file path
+   * Generate unguessable cache ID
    */
-  private getCacheFilePath(cacheId: string): string {
-    return path.join(this.cacheDir, `${cacheId}.json`);
+  private generateCacheId(): string {
+    return `exa-${randomBytes(16).toString('hex')}`;
   }
 
   /**
@@ -111,16 +156,14 @@ class ResultCacheManager {
   public cacheResults(
     query: string,
     results: ExaSearchResult[],
-    metadata: {
-      requestId: string;
-      searchType?: string;
-      autopromptString?: string;
-    },
+    metadata: CachedSearchResult['metadata'],
+    owner: string,
     ttl: number = this.DEFAULT_TTL
   ): string {
     const cacheId = this.generateCacheId();
     const cached: CachedSearchResult = {
       cacheId,
+      owner,
       query,
       timestamp: Date.now(),
       ttl,
@@ -129,45 +172,92 @@ class ResultCacheManager {
       metadata
     };
 
-    const filePath = this.getCacheFilePath(cacheId);
-    fs.writeFileSync(filePath, JSON.stringify(cached, null, 2), 'utf-8');
+    const meta: CacheRecordMeta = { cacheId, timestamp: cached.timestamp, ttl, owner };
+    const payload = JSON.stringify(cached);
+
+    this.storage.set({
+      ...meta,
+      payload: this.cipher ? this.cipher.seal(payload, this.associatedData(meta)) : payload
+    });
+    this.emit({ type: 'inserted', cacheId, owner });
+
+    // Only the inserting tenant can have gone over its limit; the full sweep
+    // runs only when the whole cache passes its safety net
+    this.trimOwner(owner);
+    if (this.storage.size() > this.MAX_TOTAL_ENTRIES) {
+      this.trimToCapacity();
+    }
 
     return cacheId;
   }
 
   /**
-   * Retrieve cached results
+   * Retrieve cached results owned by the given tenant
+   */
+  public getCachedResults(cacheId: string, owner: string): CachedSearchResult | null {
+    const cached = this.readCache(cacheId);
+    return cached && cached.owner === owner ? cached : null;
+  }
+
+  /**
+   * Load and parse a live entry regardless of owner
    */
-  public getCachedResults(cacheId: string): CachedSearchResult | null {
-    const filePath = this.getCacheFilePath(cacheId);
+  private readCache(cacheId: string): CachedSearchResult | null {
+    const record = this.storage.get(cacheId);
 
-    if (!fs.existsSync(filePath)) {
+    if (!record) {
       return null;
     }
 
-    try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const cached: CachedSearchResult = JSON.parse(content);
+    // Check if expired
+    if (Date.now() - record.timestamp > record.ttl) {
+      this.deleteCached(cacheId, 'expired', record.owner);
+      return null;
+    }
 
-      // Check if expired
-      if (Date.now() - cached.timestamp > cached.ttl) {
-        this.deleteCached(cacheId);
-        return null;
-      }
+    // Plaintext, tampered or foreign-key entries all read as misses when encryption is on
+    const payload = this.cipher ? this.cipher.open(record.payload, this.associatedData(record)) : record.payload;
+    if (payload === null) {
+      return null;
+    }
 
-      return cached;
+    try {
+      return JSON.parse(payload) as CachedSearchResult;
     } catch (error) {
-      // Silently handle read errors - cache files may be corrupted or incomplete
+      // Silently handle parse errors - payload may be corrupted or incomplete
       // This is expected behavior during concurrent access or cleanup
       return null;
     }
   }
 
+  /**
+   * List the tenant's live (non-expired) cached searches, newest first
+   */
+  public listCachedSearches(owner: string): CachedSearchResult[] {
+    // Filter on stored metadata first so other tenants' payloads are never decrypted or parsed
+    return this.storage.list(owner)
+      .map(meta => this.getCachedResults(meta.cacheId, owner))
+      .filter((cached): cached is CachedSearchResult => cached !== null)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Find the tenant's most recent live cache from the same tool for the same query (case/whitespace-insensitive)
+   * Tools share query text (company_search vs competitor_search), so the tool must match too
+   */
+  public findRecentByQuery(owner: string, tool: string, query: string): CachedSearchResult | null {
+    const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+    const target = normalize(query);
+    return this.listCachedSearches(owner).find(cached =>
+      cached.metadata.tool === tool && normalize(cached.query) === target
+    ) || null;
+  }
+
   /**
    * Get specific result by index from cache
    */
-  public getResultByIndex(cacheId: string, index: number): ExaSearchResult | null {
-    const cached = this.getCachedResults(cacheId);
+  public getResultByIndex(cacheId: string, owner: string, index: number): ExaSearchResult | null {
+    const cached = this.getCachedResults(cacheId, owner);
 
     if (!cached || index < 0 || index >= cached.results.length) {
       return null;
@@ -179,8 +269,8 @@ class ResultCacheManager {
   /**
    * Get range of results from cache
    */
-  public getResultRange(cacheId: string, startIndex: number, endIndex: number): ExaSearchResult[] | null {
-    const cached = this.getCachedResults(cacheId);
+  public getResultRange(cacheId: string, owner: string, startIndex: number, endIndex: number): ExaSearchResult[] | null {
+    const cached = this.getCachedResults(cacheId, owner);
 
     if (!cached) {
       return null;
@@ -193,63 +283,82 @@ class ResultCacheManager {
   }
 
   /**
-   * Delete cached results
+   * Delete cached results; the owner is passed on to listeners so they can ignore other tenants
    */
-  public deleteCached(cacheId: string): void {
-    const filePath = this.getCacheFilePath(cacheId);
-
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+  public deleteCached(cacheId: string, reason: CacheEvictionReason = 'deleted', owner?: string): void {
+    if (this.storage.delete(cacheId)) {
+      this.emit({ type: 'evicted', cacheId, owner, reason });
     }
   }
 
   /**
-   * Cleanup old/expired caches
+   * Entries kept per tenant before the oldest are evicted
    */
-  public cleanupOldCaches(): void {
-    if (!fs.existsSync(this.cacheDir)) {
-      return;
-    }
-
-    const files = fs.readdirSync(this.cacheDir);
-    const cacheFiles = files.filter(f => f.startsWith('exa-') && f.endsWith('.json'));
-
-    // Sort by modification time (oldest first)
-    const filesWithStats = cacheFiles.map(f => ({
-      name: f,
-      path: path.join(this.cacheDir, f),
-      mtime: fs.statSync(path.join(this.cacheDir, f)).mtime.getTime()
-    }));
-
-    filesWithStats.sort((a, b) => a.mtime - b.mtime);
+  public getMaxEntriesPerOwner(): number {
+    return this.maxEntriesPerOwner;
+  }
 
-    // Delete expired caches
-    for (const file of filesWithStats) {
-      try {
-        const content = fs.readFileSync(file.path, 'utf-8');
-        const cached: CachedSearchResult = JSON.parse(content);
+  /**
+   * Evict one tenant's least recently used / oldest entries beyond its limit
+   */
+  private trimOwner(owner: string): void {
+    const entries = this.storage.list(owner);
+    for (const entry of entries.slice(0, Math.max(0, entries.length - this.maxEntriesPerOwner))) {
+      this.deleteCached(entry.cacheId, 'capacity', entry.owner);
+    }
+  }
 
-        if (Date.now() - cached.timestamp > cached.ttl) {
-          fs.unlinkSync(file.path);
-        }
-      } catch (error) {
-        // If we can't parse it, delete it
-        fs.unlinkSync(file.path);
+  /**
+   * Evict least recently used / oldest entries beyond each tenant's limit,
+   * so one busy tenant cannot push out everyone else's results
+   */
+  private trimToCapacity(): void {
+    const entries = this.storage.list();
+    const perOwner = new Map<string, CacheRecordMeta[]>();
+
+    for (const entry of entries) {
+      // Entries written before owners were recorded share one bucket
+      const owner = entry.owner ?? '';
+      const bucket = perOwner.get(owner);
+      if (bucket) {
+        bucket.push(entry);
+      } else {
+        perOwner.set(owner, [entry]);
       }
     }
 
-    // If still too many caches, delete oldest
-    const remainingFiles = fs.readdirSync(this.cacheDir)
-      .filter(f => f.startsWith('exa-') && f.endsWith('.json'));
+    const evicted = new Set<string>();
+    for (const ownerEntries of perOwner.values()) {
+      for (const entry of ownerEntries.slice(0, Math.max(0, ownerEntries.length - this.maxEntriesPerOwner))) {
+        this.deleteCached(entry.cacheId, 'capacity', entry.owner);
+        evicted.add(entry.cacheId);
+      }
+    }
 
-    if (remainingFiles.length > this.MAX_CACHE_SIZE) {
-      const toDelete = remainingFiles.length - this.MAX_CACHE_SIZE;
-      const oldestFiles = remainingFiles.slice(0, toDelete);
+    const remaining = entries.filter(entry => !evicted.has(entry.cacheId));
+    for (const entry of remaining.slice(0, Math.max(0, remaining.length - this.MAX_TOTAL_ENTRIES))) {
+      this.deleteCached(entry.cacheId, 'capacity', entry.owner);
+    }
+  }
 
-      for (const file of oldestFiles) {
-        fs.unlinkSync(path.join(this.cacheDir, file));
+  /**
+   * Cleanup old/expired caches
+   * Uses entry metadata only; cached payloads are never decrypted or parsed here
+   */
+  public cleanupOldCaches(): void {
+    const now = Date.now();
+
+    for (const entry of this.storage.list()) {
+      if (entry.ttl <= 0) {
+        // Unreadable entries carry no TTL
+        this.deleteCached(entry.cacheId, 'invalid', entry.owner);
+      } else if (now - entry.timestamp > entry.ttl) {
+        this.deleteCached(entry.cacheId, 'expired', entry.owner);
       }
     }
+
+    // If still too many caches, delete oldest
+    this.trimToCapacity();
   }
 
   /**
@@ -257,45 +366,40 @@ class ResultCacheManager {
    */
   public getCacheStats(): {
     totalCached: number;
-    cacheDir: string;
+    backend: string;
+    location: string;
     oldestCache: number | null;
     newestCache: number | null;
   } {
-    if (!fs.existsSync(this.cacheDir)) {
-      return {
-        totalCached: 0,
-        cacheDir: this.cacheDir,
-        oldestCache: null,
-        newestCache: null
-      };
-    }
-
-    const files = fs.readdirSync(this.cacheDir)
-      .filter(f => f.startsWith('exa-') && f.endsWith('.json'));
-
-    let oldest: number | null = null;
-    let newest: number | null = null;
-
-    for (const file of files) {
-      const stats = fs.statSync(path.join(this.cacheDir, file));
-      const mtime = stats.mtime.getTime();
-
-      if (oldest === null || mtime < oldest) {
-        oldest = mtime;
-      }
-      if (newest === null || mtime > newest) {
-        newest = mtime;
-      }
-    }
+    const entries = this.storage.list();
+    const timestamps = entries.map(entry => entry.timestamp);
 
     return {
-      totalCached: files.length,
-      cacheDir: this.cacheDir,
-      oldestCache: oldest,
-      newestCache: newest
+      totalCached: entries.length,
+      backend: this.storage.backend,
+      location: this.storage.location,
+      oldestCache: timestamps.length > 0 ? Math.min(...timestamps) : null,
+      newestCache: timestamps.length > 0 ? Math.max(...timestamps) : null
     };
   }
 }
 
-// Singleton instance
-export const resultCache = new ResultCacheManager();
+/**
+ * Derive the cache owner for a tool config
+ * Resolves the API key the same way getExaClient does; the raw key is never stored.
+ * A tenant ID (access token clients sharing the operator's key) narrows it further,
+ * so the same tenant name under another key is a different owner
+ */
+export function getCacheOwner(config?: { exaApiKey?: string; tenantId?: string }): string {
+  const apiKey = config?.exaApiKey || process.env.EXA_API_KEY || '';
+  const identity = config?.tenantId ? `${apiKey}\ntenant:${config.tenantId}` : apiKey;
+  return createHash('sha256').update(identity).digest('hex').substring(0, 32);
+}
+
+// Singleton instance; storage, encryption and the per-tenant limit are process-wide, so only the operator sets them
+export const resultCache = new ResultCacheManager({
+  backend: process.env.EXA_CACHE_BACKEND as CacheStorageOptions['backend'],
+  path: process.env.EXA_CACHE_PATH,
+  encryptionKey: process.env.EXA_CACHE_ENCRYPTION_KEY,
+  maxEntriesPerOwner: process.env.EXA_CACHE_MAX_ENTRIES ? Number(process.env.EXA_CACHE_MAX_ENTRIES) || undefined : undefined
+});
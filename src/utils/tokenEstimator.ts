@@ -18,6 +18,9 @@ export interface ResponseMetadata {
   truncated: boolean;
   hasMore: boolean;
   contentLevel: 'summary' | 'standard' | 'full';
+  dateWindow?: string;
+  responseCacheAgeMs?: number; // Set when served from the upstream response cache
+  rateLimitDelayMs?: number;   // Set when the client-side rate limiter queued the request
   costEstimate?: {
     inputTokens: number;
     estimatedCostUSD: number;
@@ -51,6 +54,13 @@ export function estimateTokens(text: string): TokenEstimate {
   };
 }
 
+/**
+ * Convert a token budget into characters using the same ratio as estimateTokens
+ */
+export function tokensToCharacters(tokens: number): number {
+  return Math.floor((tokens * 4) / 1.3);
+}
+
 /**
  * Calculate cost estimate for Claude API consumption
  * Based on current pricing: $3/MTok input, $15/MTok output for Sonnet 3.5
@@ -98,11 +108,20 @@ export function formatMetadataForClaude(metadata: ResponseMetadata): string {
     '',
     `- Results: ${metadata.returnedResults}/${metadata.totalResults} (${metadata.hasMore ? 'more available' : 'complete'})`,
     `- Content Level: ${metadata.contentLevel.toUpperCase()}`,
+    ...(metadata.dateWindow ? [`- Date Window: ${metadata.dateWindow}`] : []),
     `- Token Estimate: ~${metadata.tokenEstimate.estimatedTokens.toLocaleString()} tokens`,
     `- Characters: ${metadata.tokenEstimate.characters.toLocaleString()}`,
     `- Cost Estimate: ~$${metadata.costEstimate?.estimatedCostUSD.toFixed(4)} (input only)`,
   ];
 
+  if (metadata.responseCacheAgeMs !== undefined) {
+    lines.push(`- Source: response cache (fetched ${Math.round(metadata.responseCacheAgeMs / 1000)}s ago, no API call made)`);
+  }
+
+  if (metadata.rateLimitDelayMs !== undefined) {
+    lines.push(`- Rate Limit: delayed ${(metadata.rateLimitDelayMs / 1000).toFixed(1)}s by client-side rate limiting`);
+  }
+
   if (metadata.truncated) {
     lines.push(`- Warning: Content truncated to prevent token overflow`);
   }